@@ -0,0 +1,89 @@
+import { Actions, TransportNotConnectedError } from '../../core';
+import type { Message } from '../../core';
+import { ElectronRendererTransport } from '../electron-ipc-renderer';
+import { SharedWorkerClient } from '../shared-worker-client';
+
+type QueryClient = {
+  query(name: string, dto?: unknown, opts?: number): Promise<unknown>;
+  close(): Promise<void>;
+};
+
+/** One transport wired to a fake channel: `sent` records requests, `reply` answers, `fail` breaks sending. */
+type Fixture = {
+  client: QueryClient;
+  sent: any[];
+  reply(msg: Message): void;
+  fail(err: Error | undefined): void;
+  restore?(): void;
+};
+
+function electronRenderer(): Fixture {
+  let listener: ((e: unknown, msg: unknown) => void) | undefined;
+  let error: Error | undefined;
+  const sent: any[] = [];
+  const ipc = {
+    on: (_channel: string, l: typeof listener) => (listener = l),
+    off: () => (listener = undefined),
+    send(_channel: string, msg: unknown) {
+      if (error) throw error;
+      sent.push(msg);
+    },
+  };
+  return {
+    client: new ElectronRendererTransport({ ipcRenderer: ipc as any }),
+    sent,
+    reply: (msg) => listener?.({}, msg),
+    fail: (err) => (error = err),
+  };
+}
+
+function sharedWorker(): Fixture {
+  const sent: any[] = [];
+  let error: Error | undefined;
+  const port = {
+    onmessage: undefined as ((ev: { data: unknown }) => void) | undefined,
+    postMessage(data: string) {
+      if (error) throw error;
+      sent.push(JSON.parse(data));
+    },
+    start() {},
+    close() {},
+  };
+  const original = (globalThis as any).SharedWorker;
+  (globalThis as any).SharedWorker = class {
+    port = port;
+  };
+  return {
+    client: new SharedWorkerClient({ url: '/worker.js' }),
+    sent,
+    reply: (msg) => port.onmessage?.({ data: JSON.stringify(msg) }),
+    fail: (err) => (error = err),
+    restore: () => ((globalThis as any).SharedWorker = original),
+  };
+}
+
+describe.each([
+  ['electron-ipc-renderer', electronRenderer],
+  ['shared-worker', sharedWorker],
+] as const)('%s query', (transport, make) => {
+  let f: Fixture;
+  beforeEach(() => (f = make()));
+  afterEach(async () => {
+    await f.client.close();
+    f.restore?.();
+  });
+
+  it('round-trips, and a failed send rejects as not connected with the cause', async () => {
+    const pending = f.client.query('GetThing', { id: 1 });
+    const req = f.sent.pop();
+    expect(req).toMatchObject({ action: Actions.QueryRequest, payload: { name: 'GetThing', dto: { id: 1 } } });
+    f.reply({ action: Actions.QueryResponse, requestId: req.requestId, payload: { ok: true, data: 7 } });
+    await expect(pending).resolves.toBe(7);
+
+    const cause = new Error('An object could not be cloned.');
+    f.fail(cause);
+    const err = await f.client.query('GetThing', {}, 1000).catch((e) => e);
+    expect(err).toBeInstanceOf(TransportNotConnectedError);
+    expect(err).toMatchObject({ code: 'TRANSPORT_NOT_CONNECTED', transport, query: 'GetThing', cause });
+  });
+});
@@ -0,0 +1,55 @@
+import { Actions, QueryTimeoutError } from '../../core';
+import { Client } from '../client';
+import { SharedWorkerClient } from '../shared-worker-client';
+
+// Stand-in for window.SharedWorker: its port records frames, inbound is driven by the test.
+class FakePort {
+  sent: any[] = [];
+  onmessage?: (ev: { data: unknown }) => void;
+  onmessageerror?: () => void;
+  postMessage(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  start() {}
+  close() {}
+  receive(msg: unknown) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+}
+class FakeSharedWorker {
+  static last: FakeSharedWorker;
+  port = new FakePort();
+  constructor() {
+    FakeSharedWorker.last = this;
+  }
+}
+
+describe('SharedWorkerClient', () => {
+  const original = (globalThis as any).SharedWorker;
+  beforeAll(() => ((globalThis as any).SharedWorker = FakeSharedWorker));
+  afterAll(() => ((globalThis as any).SharedWorker = original));
+
+  it('the Client facade keeps the queryTimeoutMs of the transport', async () => {
+    const client = new Client({ transport: { type: 'shared-worker', options: { url: '/worker.js', queryTimeoutMs: 30 } } });
+    const started = Date.now();
+    await expect(client.query('Slow')).rejects.toBeInstanceOf(QueryTimeoutError);
+    expect(Date.now() - started).toBeLessThan(1000);
+    await client.close();
+  });
+
+  it('isOnline follows the state: online after a pong, back to open once pongs stop', async () => {
+    const client = new SharedWorkerClient({ url: '/worker.js', onlineTimeoutMs: 30 });
+    const port = FakeSharedWorker.last.port;
+    expect(client.isOnline()).toBe(false);
+
+    port.receive({ action: Actions.Pong, timestamp: Date.now() });
+    await new Promise((r) => setImmediate(r));
+    expect(client.isOnline()).toBe(true);
+    expect(client.state.state).toBe('online');
+
+    await new Promise((r) => setTimeout(r, 60));
+    expect(client.isOnline()).toBe(false);
+    expect(client.state.state).toBe('open');
+    await client.close();
+  });
+});
@@ -0,0 +1,111 @@
+import { Actions, TooManyQueriesInFlightError, TransportNotConnectedError } from '../../core';
+import { WsBrowserClient } from '../ws-browser';
+import { Client } from '../client';
+
+// Minimal stand-in for window.WebSocket: records frames, inbound is driven by the test.
+class FakeBrowserSocket {
+  static OPEN = 1;
+  static last: FakeBrowserSocket;
+  readyState = FakeBrowserSocket.OPEN;
+  sent: any[] = [];
+  onopen?: () => void;
+  onmessage?: (ev: { data: unknown }) => void;
+  onclose?: () => void;
+  onerror?: () => void;
+
+  constructor() {
+    FakeBrowserSocket.last = this;
+  }
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  close() {
+    this.readyState = 3;
+  }
+  open() {
+    this.onopen?.();
+  }
+  receive(msg: unknown) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+}
+
+describe('WsBrowserClient', () => {
+  const original = (globalThis as any).WebSocket;
+  beforeAll(() => ((globalThis as any).WebSocket = FakeBrowserSocket));
+  afterAll(() => ((globalThis as any).WebSocket = original));
+
+  it('Client.isOnline: true before the first ping as before, then follows the state', async () => {
+    const client = new Client({ transport: { type: 'ws', options: { url: 'ws://fake', onlineTimeoutMs: 30 } } });
+    const sock = FakeBrowserSocket.last;
+    expect(client.isOnline()).toBe(true);
+    sock.open();
+    sock.receive({ action: Actions.Ping, timestamp: Date.now() });
+    expect(client.isOnline()).toBe(true);
+
+    await new Promise((r) => setTimeout(r, 60));
+    expect(client.state.state).toBe('open');
+    expect(client.isOnline()).toBe(false);
+    await client.close();
+  });
+
+  it('query: parallel queries are matched by correlationId', async () => {
+    const client = new WsBrowserClient({ url: 'ws://fake' });
+    const sock = FakeBrowserSocket.last;
+
+    const first = client.query('A', { id: 1 });
+    const second = client.query('B', { id: 2 });
+    const [req1, req2] = sock.sent;
+    expect(req1.action).toBe(Actions.QueryRequest);
+
+    sock.receive({ action: Actions.QueryResponse, correlationId: req2.correlationId, payload: { ok: true, data: 2 } });
+    sock.receive({ action: Actions.QueryResponse, correlationId: req1.correlationId, payload: { ok: false, err: 'boom' } });
+
+    await expect(second).resolves.toBe(2);
+    await expect(first).rejects.toThrow('boom');
+    await client.close();
+  });
+
+  it('query: times out, drops the late response and checks the payload size', async () => {
+    const client = new WsBrowserClient({ url: 'ws://fake', maxWireBytes: 1024 });
+    const sock = FakeBrowserSocket.last;
+
+    await expect(client.query('Slow', {}, 10)).rejects.toThrow('[ws-browser] query timeout');
+    sock.receive({ action: Actions.QueryResponse, correlationId: sock.sent[0].correlationId, payload: { ok: true } });
+    await expect(client.query('Big', { s: 'x'.repeat(2048) })).rejects.toThrow(/too large/);
+    await client.close();
+  });
+
+  it('query: typed errors for the in-flight cap and a failed send', async () => {
+    const client = new WsBrowserClient({ url: 'ws://fake', maxInFlightQueries: 1 });
+    const sock = FakeBrowserSocket.last;
+
+    const first = client.query('A', {}, 50);
+    const capped = await client.query('B').catch((e) => e);
+    expect(capped).toBeInstanceOf(TooManyQueriesInFlightError);
+    expect(capped).toMatchObject({ code: 'TOO_MANY_IN_FLIGHT', transport: 'ws', query: 'B', maxInFlight: 1 });
+    await expect(first).rejects.toMatchObject({ code: 'QUERY_TIMEOUT' });
+
+    const gone = new Error('InvalidStateError');
+    sock.send = () => {
+      throw gone;
+    };
+    const failed = await client.query('C').catch((e) => e);
+    expect(failed).toBeInstanceOf(TransportNotConnectedError);
+    expect(failed).toMatchObject({ query: 'C', cause: gone });
+    await client.close();
+  });
+
+  it('heartbeat watchdog drops a silent socket', async () => {
+    const client = new WsBrowserClient({ url: 'ws://fake', heartbeatTimeoutMs: 30, keepaliveIntervalMs: 10 });
+    const sock = FakeBrowserSocket.last;
+    sock.open();
+    expect(client.state.state).toBe('open');
+
+    await new Promise((r) => setTimeout(r, 80));
+    expect(sock.readyState).toBe(3);
+    expect(sock.sent.some((m) => m.action === Actions.Ping)).toBe(true);
+    expect(client.state).toMatchObject({ state: 'closed', lastError: { message: expect.stringMatching(/no frame/) } });
+    await client.close();
+  });
+});
@@ -2,6 +2,30 @@ import { WsBrowserClient } from './ws-browser';
 import { ElectronRendererTransport } from './electron-ipc-renderer';
 import { SharedWorkerClient } from './shared-worker-client';
 import type { SharedWorkerClientOptions } from './shared-worker-client';
+import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DomainEvent,
+  FetchEventsOptions,
+  InboundMiddleware,
+  Logger,
+  QueryCall,
+  QueryInterceptor,
+  QueryCacheOptions,
+  QueryOptions,
+  RetryOptions,
+  TransportQueryOptions,
+  ValidationOptions,
+} from '../core';
+import {
+  PayloadValidation,
+  QueryCache,
+  decodeEventList,
+  mergeRetry,
+  paginateEvents,
+  runQueryChain,
+  withRetry,
+} from '../core';
 
 /**
  * BrowserClient
@@ -15,9 +39,15 @@ export class Client {
   private ws?: WsBrowserClient;
   private el?: ElectronRendererTransport;
   private sw?: SharedWorkerClient;
+  private readonly validation?: PayloadValidation;
+  private interceptors: QueryInterceptor[] = [];
+  private readonly retry?: RetryOptions;
+  private readonly cache?: QueryCache;
+  /** Whether the transport has been 'online' at least once. */
+  private pinged = false;
 
   constructor(
-    opts:
+    opts: (
       | { transport: { type: 'ws'; options: ConstructorParameters<typeof WsBrowserClient>[0] } }
       | {
           transport: {
@@ -26,29 +56,77 @@ export class Client {
           };
         }
       | { transport: { type: 'shared-worker'; options: SharedWorkerClientOptions } }
+    ) & {
+      /** Runtime validators for event payloads and query results. */
+      validation?: ValidationOptions;
+      /** Default retry policy of every query; per-call `retry` is merged over it. */
+      retry?: RetryOptions;
+      /** Opt-in query result cache with TTL, stale-while-revalidate and event-driven invalidation. */
+      cache?: QueryCacheOptions;
+      /** Structured logger (pino/console-compatible) for the transport, unless its options set their own. */
+      logger?: Logger;
+    }
   ) {
+    if (opts.validation) this.validation = new PayloadValidation(opts.validation);
+    this.retry = opts.retry;
+    const logger = opts.logger;
     switch (opts.transport.type) {
       case 'ws':
-        this.ws = new WsBrowserClient(opts.transport.options);
+        this.ws = new WsBrowserClient({ logger, ...opts.transport.options });
         break;
       case 'electron-ipc-renderer':
-        this.el = new ElectronRendererTransport(opts.transport.options);
+        this.el = new ElectronRendererTransport({ logger, ...opts.transport.options });
         break;
       case 'shared-worker':
-        this.sw = new SharedWorkerClient(opts.transport.options);
+        this.sw = new SharedWorkerClient({ logger, ...opts.transport.options });
         break;
       default:
         throw new Error('[browser-client] unknown transport');
     }
+    this.transport.on('state', (e) => {
+      if (e.state === 'online') this.pinged = true;
+    });
+    if (opts.cache) {
+      this.cache = new QueryCache(opts.cache);
+      this.cache.watch((type, handler) => this.subscribeTransport(type, handler));
+    }
   }
 
   subscribe<T = any>(name: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    if (this.ws) return this.ws.subscribe<T>(name, handler);
-    if (this.el) return this.el.subscribe<T>(name, handler);
-    if (this.sw) return this.sw.subscribe<T>(name, handler);
+    if (this.validation) handler = this.validation.wrap(name, handler);
+    return this.subscribeTransport(name, handler);
+  }
+
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    if (this.validation) handler = this.validation.wrap('*', handler);
+    if (this.ws) return this.ws.subscribeModel<T>(modelName, handler);
+    if (this.el) return this.el.subscribeModel<T>(modelName, handler);
+    if (this.sw) return this.sw.subscribeModel<T>(modelName, handler);
+    throw new Error('[browser-client] no transport');
+  }
+
+  /** Inbound middleware `(event, ctx, next)`; runs around every handler call of a batch. */
+  useInbound(mw: InboundMiddleware): () => void {
+    if (this.ws) return this.ws.useInbound(mw);
+    if (this.el) return this.el.useInbound(mw);
+    if (this.sw) return this.sw.useInbound(mw);
     throw new Error('[browser-client] no transport');
   }
 
+  /** Listen for connection state changes (connecting, open, online, reconnecting, closed). Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.transport.on(event, listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.transport.state;
+  }
+
+  private get transport() {
+    const t = this.ws ?? this.el ?? this.sw;
+    if (!t) throw new Error('[browser-client] no transport');
+    return t;
+  }
+
   getSubscriptionCount(name: string): number {
     if (this.ws) return this.ws.getSubscriptionCount(name);
     if (this.el) return this.el.getSubscriptionCount(name);
@@ -56,12 +134,47 @@ export class Client {
     return 0;
   }
 
-  async query<TReq = unknown, TRes = unknown>(name: string, dto?: TReq, timeoutMs?: number): Promise<TRes> {
-    if (this.sw) return this.sw.query<TReq, TRes>(name, dto, timeoutMs);
-    if (this.el) return this.el.query<TReq, TRes>(name, dto, timeoutMs);
-    throw new Error(
-      '[browser-client] query is not supported for ws transport — use shared-worker or electron-ipc-renderer'
-    );
+  /** Add a query interceptor `(call, next)`; interceptors run in registration order. Returns a remover. */
+  useQuery(interceptor: QueryInterceptor): () => void {
+    this.interceptors = [...this.interceptors, interceptor];
+    return () => {
+      this.interceptors = this.interceptors.filter((i) => i !== interceptor);
+    };
+  }
+
+  /**
+   * `opts` is a timeout in ms or `{ timeoutMs, signal, retry }` (see the node Client).
+   * Without `timeoutMs`, the transport's default applies (`queryTimeoutMs`; 10 s for Electron).
+   */
+  async query<TReq = unknown, TRes = unknown>(name: string, dto?: TReq, opts?: number | QueryOptions): Promise<TRes> {
+    const o = typeof opts === 'number' ? { timeoutMs: opts } : opts ?? {};
+    const call: QueryCall = {
+      name,
+      dto,
+      timeoutMs: o.timeoutMs ?? this.transport.defaultQueryTimeoutMs,
+      signal: o.signal,
+      traceparent: o.traceparent,
+      retry: mergeRetry(this.retry, o.retry),
+      meta: {},
+    };
+    const send = (c: QueryCall) =>
+      withRetry((timeoutMs) => this.send({ ...c, timeoutMs }), c.timeoutMs, c.retry, c.signal);
+    const chain = this.cache ? [...this.interceptors, this.cache.interceptor] : this.interceptors;
+    return this.checked(name, (await runQueryChain(chain, call, send)) as TRes);
+  }
+
+  /** Drop cached query results (all, or one query name). No-op without `cache`. */
+  invalidateQueries(name?: string): void {
+    this.cache?.invalidate(name);
+  }
+
+  /**
+   * Read a model's history as an async iterable, one FetchEventsQuery page at a time.
+   * Pages go through `query()`, so interceptors, retries and validation apply to each of them;
+   * their payloads are decoded afterwards (browser queries return them raw).
+   */
+  fetchEvents(opts: FetchEventsOptions): AsyncIterable<DomainEvent> {
+    return paginateEvents((name, dto, o) => this.query(name, dto, o).then(decodeEventList), opts);
   }
 
   /** Send a ping to check SharedWorker liveness. No-op for other transports. */
@@ -70,12 +183,12 @@ export class Client {
   }
 
   /**
-   * Whether the SharedWorker has replied to a ping recently.
-   * For ws/electron-ipc-renderer returns true once constructed.
+   * Whether a ping/pong went through recently, i.e. `state.state === 'online'`.
+   * ws/electron-ipc-renderer return true from construction until the first ping, as they always did.
    */
   isOnline(): boolean {
-    if (this.sw) return this.sw.isOnline();
-    return !!(this.ws || this.el);
+    if (!this.sw && !this.pinged) return true;
+    return this.state.state === 'online';
   }
 
   tapRaw(handler: (msg: any) => void): () => void {
@@ -97,4 +210,28 @@ export class Client {
     if (this.el) return this.el.close();
     if (this.sw) return this.sw.close();
   }
+
+  private subscribeTransport<T>(name: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    if (this.ws) return this.ws.subscribe<T>(name, handler);
+    if (this.el) return this.el.subscribe<T>(name, handler);
+    if (this.sw) return this.sw.subscribe<T>(name, handler);
+    throw new Error('[browser-client] no transport');
+  }
+
+  private send(c: QueryCall): Promise<unknown> {
+    const o: TransportQueryOptions = {
+      timeoutMs: c.timeoutMs,
+      signal: c.signal,
+      traceparent: c.traceparent,
+      headers: c.headers,
+    };
+    if (this.sw) return this.sw.query(c.name, c.dto, o);
+    if (this.el) return this.el.query(c.name, c.dto, o);
+    if (this.ws) return this.ws.query(c.name, c.dto, o);
+    return Promise.reject(new Error('[browser-client] no transport'));
+  }
+
+  private checked<T>(name: string, data: T): T {
+    return this.validation ? this.validation.result(name, data) : data;
+  }
 }
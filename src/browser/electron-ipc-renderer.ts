@@ -1,18 +1,46 @@
 import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DedupStore,
+  InboundMiddleware,
   Message,
   OutboxStreamAckPayload,
   OutboxStreamBatchPayload,
   QueryRequestPayload,
   QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  toQueryOptions,
+  uuid,
+  nextBackoff,
+  delay,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  answerPing,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  InvalidResponseError,
 } from '../core';
-import { Actions, createDomainEventFromWire, uuid, nextBackoff, delay } from '../core';
 
 /**
  * ElectronRendererTransport (browser-side in renderer)
  * -----------------------------------------------------------------------------
  * Role:
  * - Runs in Electron renderer and talks to main via 'transport:message'.
- * - Accepts 'ping' -> replies 'pong' (with optional { password }).
+ * - Accepts 'ping' -> replies 'pong' (with optional { password }, or an HMAC proof in 'challenge' mode).
  * - Accepts 'outbox.stream.batch' -> fan-out -> replies 'outbox.stream.ack'.
  * - Sends 'query.request' -> awaits 'query.response' from main's ElectronIpcMainService.
  *
@@ -22,18 +50,60 @@ import { Actions, createDomainEventFromWire, uuid, nextBackoff, delay } from '..
  */
 export class ElectronRendererTransport {
   private readonly ipc: IpcRendererLike;
-  private readonly pongPassword?: string;
-
-  private subs = new Map<string, Set<(evt: any) => unknown | Promise<unknown>>>();
-  private pendingQueries = new Map<string, (payload: any) => void>();
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
+  private readonly clientId?: string;
+  private readonly queryCancelNotice: boolean;
+
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
+  /** Resolved with the response payload, or with the error the query must fail with. */
+  private pendingQueries = new Map<string, { name: string; resolve: (response: unknown) => void }>();
   private rawHandlers = new Set<(m: Message) => void>();
   private actionHandlers = new Map<string, Set<(m: Message) => void>>();
 
   private readonly onIpc = (_: any, raw: unknown) => this.handleIncoming(raw);
 
-  constructor(opts?: { ipcRenderer?: IpcRendererLike; pongPassword?: string }) {
+  constructor(opts?: {
+    ipcRenderer?: IpcRendererLike;
+    pongPassword?: Credential;
+    /** 'challenge': answer the Ping nonce with an HMAC over nonce and `clientId` instead of the password. Default: 'password'. */
+    pongAuth?: PongAuthMode;
+    /** Bound into the 'challenge' proof. */
+    clientId?: string;
+    dedup?: DedupStore;
+    /** Sink for the built-in transport metrics, e.g. a `MetricsRegistry`. */
+    metrics?: MetricsSink;
+    /** Spans for queries, batches and handlers, with W3C traceparent propagation. No-op by default. */
+    tracer?: Tracer;
+    /** pino/console-compatible structured logger; tokens and pong passwords are redacted. Silent by default. */
+    logger?: Logger;
+    /** Send 'query.cancel' with the requestId when a query is aborted. */
+    queryCancelNotice?: boolean;
+    /** 'online' falls back to 'open' without a ping/pong for this long. Default: 15000 ms; 0 = never. */
+    onlineTimeoutMs?: number;
+  }) {
     this.ipc = opts?.ipcRenderer ?? getIpcRenderer();
-    this.pongPassword = opts?.pongPassword;
+    this.pongPassword = new CredentialSource(opts?.pongPassword);
+    this.pongAuth = opts?.pongAuth ?? 'password';
+    this.clientId = opts?.clientId;
+    this.queryCancelNotice = !!opts?.queryCancelNotice;
+    this.status = new ConnectionStatus('open', { onlineTimeoutMs: opts?.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts?.metrics, 'electron-ipc-renderer');
+    this.tracer = new TransportTracer(opts?.tracer, 'electron-ipc-renderer');
+    this.logger = new TransportLogger(opts?.logger, 'electron-ipc-renderer', () => this.pongPassword.known());
+    this.dispatcher = new EventDispatcher({
+      tag: '[electron-renderer]',
+      transport: 'electron-ipc-renderer',
+      ordering: 'sequential',
+      dedup: opts?.dedup,
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     this.ipc.on('transport:message', this.onIpc);
   }
@@ -43,21 +113,61 @@ export class ElectronRendererTransport {
   // ---------------------------------------------------------------------------
 
   subscribe<T = any>(constructorName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    const set = this.subs.get(constructorName) ?? new Set();
-    set.add(handler as any);
-    this.subs.set(constructorName, set);
-    return () => set.delete(handler as any);
+    return this.dispatcher.subscribe<T>(constructorName, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
 
   getSubscriptionCount(constructorName: string): number {
-    return this.subs.get(constructorName)?.size ?? 0;
+    return this.dispatcher.count(constructorName);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Connection state
+  // ---------------------------------------------------------------------------
+
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
+  }
+  /** Timeout of a query that sets none. */
+  get defaultQueryTimeoutMs(): number {
+    return 10_000;
   }
 
   // ---------------------------------------------------------------------------
   // Query — renderer → main (ElectronIpcMainService routes to QueryBus)
   // ---------------------------------------------------------------------------
 
-  async query<TReq = unknown, TRes = unknown>(name: string, dto?: TReq, timeoutMs = 10_000): Promise<TRes> {
+  async query<TReq = unknown, TRes = unknown>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = unknown, TRes = unknown>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs = this.defaultQueryTimeoutMs, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[electron-renderer]', signal);
     const requestId = uuid();
 
     const req: Message<QueryRequestPayload> = {
@@ -65,25 +175,57 @@ export class ElectronRendererTransport {
       requestId,
       timestamp: Date.now(),
       payload: { name, dto },
+      traceparent,
+      headers,
     };
 
-    let resolveFn!: (v: any) => void;
-    const p = new Promise<TRes>((resolve) => (resolveFn = resolve));
-    this.pendingQueries.set(requestId, resolveFn);
+    let resolveFn!: (response: unknown) => void;
+    const p = new Promise<unknown>((resolve) => (resolveFn = resolve));
+    this.pendingQueries.set(requestId, { name, resolve: resolveFn });
 
-    this.ipc.send('transport:message', req);
+    try {
+      this.ipc.send('transport:message', req);
+    } catch (e) {
+      this.pendingQueries.delete(requestId);
+      throw new TransportNotConnectedError('[electron-renderer]', {
+        transport: 'electron-ipc-renderer',
+        query: name,
+        cause: e,
+      });
+    }
 
     // Poll with exponential backoff until response arrives or timeout
     const deadline = Date.now() + timeoutMs;
     const backoff = { wait: 16 };
 
     while (Date.now() < deadline) {
-      if (!this.pendingQueries.has(requestId)) return await p;
-      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }));
+      if (!this.pendingQueries.has(requestId)) return this.unwrap<TRes>(name, await p);
+      if (signal?.aborted) {
+        this.pendingQueries.delete(requestId);
+        if (this.queryCancelNotice) {
+          this.ipc.send('transport:message', { action: Actions.QueryCancel, requestId, timestamp: Date.now() });
+        }
+        throw abortError('[electron-renderer]', signal);
+      }
+      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }), signal);
     }
 
     this.pendingQueries.delete(requestId);
-    throw new Error(`[electron-renderer] query "${name}" timed out after ${timeoutMs}ms`);
+    throw new QueryTimeoutError('[electron-renderer]', {
+      transport: 'electron-ipc-renderer',
+      query: name,
+      timeoutMs: timeoutMs,
+    });
+  }
+
+  /** Result of a settled query: its data, or the error it failed with. */
+  private unwrap<TRes>(name: string, response: unknown): TRes {
+    if (response instanceof Error) throw response;
+    const ctx = { transport: 'electron-ipc-renderer', query: name };
+    const pl = response as QueryResponsePayload | undefined;
+    if (!pl || typeof pl !== 'object') throw new InvalidResponseError('[electron-renderer]', ctx);
+    if (pl.ok === false) throw new QueryRemoteError('[electron-renderer]', { ...ctx, err: pl.err });
+    return (pl.data ?? (pl as any).payload) as TRes;
   }
 
   // ---------------------------------------------------------------------------
@@ -108,43 +250,57 @@ export class ElectronRendererTransport {
 
   async close(): Promise<void> {
     this.ipc.off('transport:message', this.onIpc);
-    this.subs.clear();
+    this.dispatcher.clear();
+    for (const [, p] of this.pendingQueries) {
+      p.resolve(
+        new TransportNotConnectedError('[electron-renderer]', { transport: 'electron-ipc-renderer', query: p.name })
+      );
+    }
     this.pendingQueries.clear();
     this.rawHandlers.clear();
     this.actionHandlers.clear();
+    this.status.set('closed');
   }
 
   // ---------------------------------------------------------------------------
   // Routing
   // ---------------------------------------------------------------------------
 
-  /* eslint-disable no-empty */
   private async handleIncoming(raw: unknown) {
     const msg = normalize(raw);
-    if (!msg?.action) return;
+    if (!msg?.action) {
+      this.logger.warn('malformed message dropped', { type: typeof raw });
+      return;
+    }
 
     for (const h of this.rawHandlers) {
       try {
         h(msg);
-      } catch {}
+      } catch (e) {
+        this.logger.warn('tapRaw handler threw', { action: msg.action, error: e });
+      }
     }
     const ah = this.actionHandlers.get(msg.action);
     if (ah?.size) {
       for (const h of ah) {
         try {
           h(msg);
-        } catch {}
+        } catch (e) {
+          this.logger.warn('onAction handler threw', { action: msg.action, error: e });
+        }
       }
     }
 
     switch (msg.action) {
       case Actions.Ping: {
-        const pong: Message<{ password?: string }> = {
-          action: Actions.Pong,
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-          timestamp: Date.now(),
-        };
-        this.ipc.send('transport:message', pong);
+        this.status.alive();
+        const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+        answerPing(
+          msg,
+          auth,
+          (payload) => this.ipc.send('transport:message', { action: Actions.Pong, payload, timestamp: Date.now() }),
+          this.logger
+        );
         return;
       }
 
@@ -152,39 +308,40 @@ export class ElectronRendererTransport {
         const p = msg.payload as OutboxStreamBatchPayload;
         if (!p || !Array.isArray(p.events)) return;
 
-        for (const wire of p.events) {
-          const set = this.subs.get(wire.eventType || 'UnknownEvent');
-          if (!set?.size) continue;
-          const evt = createDomainEventFromWire(wire);
-          for (const h of set) await h(evt);
-        }
-
         const ack: Message<OutboxStreamAckPayload> = {
           action: Actions.OutboxStreamAck,
           timestamp: Date.now(),
-          payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+          payload: await this.dispatcher.dispatch(p.events, undefined, msg.traceparent),
         };
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            requestId: msg.requestId,
+            size: p.events.length,
+            okIndices: ack.payload!.okIndices,
+          });
+        }
         this.ipc.send('transport:message', ack);
         return;
       }
 
       case Actions.QueryResponse: {
-        if (!msg.requestId) return;
-        const resolver = this.pendingQueries.get(msg.requestId);
-        if (!resolver) return;
+        const pending = msg.requestId ? this.pendingQueries.get(msg.requestId) : undefined;
+        if (!msg.requestId || !pending) {
+          this.logger.debug('query response without a pending query dropped', { requestId: msg.requestId });
+          return;
+        }
         this.pendingQueries.delete(msg.requestId);
 
-        const pl = msg.payload as QueryResponsePayload;
-        if (pl?.ok === false) throw new Error(String(pl?.err ?? 'query failed'));
-        resolver(pl?.data ?? (pl as any)?.payload);
+        pending.resolve(msg.payload);
         return;
       }
 
       default:
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         return;
     }
   }
-  /* eslint-enable no-empty */
 }
 
 // -----------------------------------------------------------------------------
@@ -1,19 +1,66 @@
 import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DedupStore,
+  InboundMiddleware,
   Message,
   OutboxStreamAckPayload,
   OutboxStreamBatchPayload,
   QueryRequestPayload,
   QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  PongProof,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  toQueryOptions,
+  uuid,
+  nextBackoff,
+  delay,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  createNonce,
+  verifyPongProof,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  InvalidResponseError,
 } from '../core';
-import { Actions, createDomainEventFromWire, uuid, nextBackoff, delay } from '../core';
 
 export type SharedWorkerClientOptions = {
   /** URL of the SharedWorker script (compiled bundle). */
   url: string;
-  /** Optional password — must match SharedWorkerServer pongPassword. */
-  pongPassword?: string;
+  /**
+   * Optional password — must match SharedWorkerServer pongPassword. A provider is called for
+   * every Pong; the value it returned before is still accepted, while the worker catches up.
+   */
+  pongPassword?: Credential;
+  /** 'challenge': pings carry a nonce and the worker must answer with an HMAC proof, not the password. Default: 'password'. */
+  pongAuth?: PongAuthMode;
   /** Query timeout in ms. Default: 10_000. */
   queryTimeoutMs?: number;
+  /** Skip (and ACK) events already handled, e.g. `new InMemoryDedupStore()`. */
+  dedup?: DedupStore;
+  /** Sink for the built-in transport metrics, e.g. a `MetricsRegistry`. */
+  metrics?: MetricsSink;
+  /** Spans for queries, batches and handlers, with W3C traceparent propagation. No-op by default. */
+  tracer?: Tracer;
+  /** pino/console-compatible structured logger; tokens and pong passwords are redacted. Silent by default. */
+  logger?: Logger;
+  /** Send 'query.cancel' with the requestId when a query is aborted. Default: false. */
+  queryCancelNotice?: boolean;
+  /** 'online' falls back to 'open' without a ping/pong for this long. Default: 15000 ms; 0 = never. */
+  onlineTimeoutMs?: number;
 };
 
 /**
@@ -37,26 +84,44 @@ export class SharedWorkerClient {
   private readonly worker: SharedWorker;
   private readonly port: MessagePort;
   private readonly opts: SharedWorkerClientOptions;
-
-  private online = false;
-  private lastPongAt = 0;
-
-  private subs = new Map<string, Set<(evt: any) => unknown | Promise<unknown>>>();
-  private pendingQueries = new Map<string, (payload: any) => void>();
+  private readonly pongPassword: CredentialSource;
+
+  /** Nonce of the last ping in 'challenge' mode; a proof is accepted once. */
+  private pingNonce?: string;
+
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
+  /** Resolved with the response payload, or with the error the query must fail with. */
+  private pendingQueries = new Map<string, { name: string; resolve: (response: unknown) => void }>();
   private rawHandlers = new Set<(m: Message) => void>();
   private actionHandlers = new Map<string, Set<(m: Message) => void>>();
 
   constructor(opts: SharedWorkerClientOptions) {
     if (!opts?.url) throw new Error('[shared-worker-client] url is required');
     this.opts = opts;
+    this.pongPassword = new CredentialSource(opts.pongPassword);
+    this.status = new ConnectionStatus('open', { onlineTimeoutMs: opts.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts.metrics, 'shared-worker');
+    this.tracer = new TransportTracer(opts.tracer, 'shared-worker');
+    this.logger = new TransportLogger(opts.logger, 'shared-worker', () => this.pongPassword.known());
+    this.dispatcher = new EventDispatcher({
+      tag: '[shared-worker-client]',
+      transport: 'shared-worker',
+      ordering: 'sequential',
+      dedup: opts.dedup,
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     this.worker = new SharedWorker(opts.url, { type: 'module' });
     this.port = this.worker.port;
 
     this.port.onmessage = (ev) => this.handleIncoming(ev.data);
-    this.port.onmessageerror = () => {
-      /* port error */
-    };
+    this.port.onmessageerror = () => this.logger.warn('undecodable port message dropped');
     this.port.start();
   }
 
@@ -65,48 +130,118 @@ export class SharedWorkerClient {
   // ---------------------------------------------------------------------------
 
   subscribe<T = any>(eventName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    const set = this.subs.get(eventName) ?? new Set();
-    set.add(handler as any);
-    this.subs.set(eventName, set);
-    return () => set.delete(handler as any);
+    return this.dispatcher.subscribe<T>(eventName, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
 
   getSubscriptionCount(eventName: string): number {
-    return this.subs.get(eventName)?.size ?? 0;
+    return this.dispatcher.count(eventName);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Connection state
+  // ---------------------------------------------------------------------------
+
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
+  }
+  /** Timeout of a query that sets none (`queryTimeoutMs`). */
+  get defaultQueryTimeoutMs(): number {
+    return this.opts.queryTimeoutMs ?? 10_000;
   }
 
   // ---------------------------------------------------------------------------
   // Query — send query.request, await query.response
   // ---------------------------------------------------------------------------
 
-  async query<TReq = unknown, TRes = unknown>(name: string, dto?: TReq, timeoutMs?: number): Promise<TRes> {
+  async query<TReq = unknown, TRes = unknown>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = unknown, TRes = unknown>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[shared-worker-client]', signal);
     const requestId = uuid();
-    const timeout = timeoutMs ?? this.opts.queryTimeoutMs ?? 10_000;
+    const timeout = timeoutMs ?? this.defaultQueryTimeoutMs;
 
     const req: Message<QueryRequestPayload> = {
       action: Actions.QueryRequest,
       requestId,
       timestamp: Date.now(),
       payload: { name, dto },
+      traceparent,
+      headers,
     };
 
-    let resolveFn!: (v: any) => void;
-    const p = new Promise<TRes>((resolve) => (resolveFn = resolve));
-    this.pendingQueries.set(requestId, resolveFn);
+    let resolveFn!: (response: unknown) => void;
+    const p = new Promise<unknown>((resolve) => (resolveFn = resolve));
+    this.pendingQueries.set(requestId, { name, resolve: resolveFn });
 
-    this.send(req);
+    try {
+      this.send(req);
+    } catch (e) {
+      this.pendingQueries.delete(requestId);
+      throw new TransportNotConnectedError('[shared-worker-client]', {
+        transport: 'shared-worker',
+        query: name,
+        cause: e,
+      });
+    }
 
     // Poll with exponential backoff until response arrives or timeout
     const deadline = Date.now() + timeout;
     const backoff = { wait: 16 };
 
     while (Date.now() < deadline) {
-      if (!this.pendingQueries.has(requestId)) return await p;
-      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }));
+      if (!this.pendingQueries.has(requestId)) return this.unwrap<TRes>(name, await p);
+      if (signal?.aborted) {
+        this.pendingQueries.delete(requestId);
+        if (this.opts.queryCancelNotice) this.send({ action: Actions.QueryCancel, requestId, timestamp: Date.now() });
+        throw abortError('[shared-worker-client]', signal);
+      }
+      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }), signal);
     }
 
     this.pendingQueries.delete(requestId);
-    throw new Error(`[shared-worker-client] query "${name}" timed out after ${timeout}ms`);
+    throw new QueryTimeoutError('[shared-worker-client]', {
+      transport: 'shared-worker',
+      query: name,
+      timeoutMs: timeout,
+    });
+  }
+
+  /** Result of a settled query: its data, or the error it failed with. */
+  private unwrap<TRes>(name: string, response: unknown): TRes {
+    if (response instanceof Error) throw response;
+    const ctx = { transport: 'shared-worker', query: name };
+    const pl = response as QueryResponsePayload | undefined;
+    if (!pl || typeof pl !== 'object') throw new InvalidResponseError('[shared-worker-client]', ctx);
+    if (pl.ok === false) throw new QueryRemoteError('[shared-worker-client]', { ...ctx, err: pl.err });
+    return (pl.data ?? (pl as any).payload) as TRes;
   }
 
   // ---------------------------------------------------------------------------
@@ -127,36 +262,75 @@ export class SharedWorkerClient {
 
   /** Whether the worker has replied to a ping recently. */
   isOnline(): boolean {
-    return this.online && Date.now() - this.lastPongAt < 15_000;
+    return this.status.online;
   }
 
   /** Send a ping to check liveness. */
   ping(): void {
-    this.send({ action: Actions.Ping, requestId: uuid(), timestamp: Date.now() });
+    if (this.opts.pongAuth !== 'challenge') {
+      this.send({ action: Actions.Ping, requestId: uuid(), timestamp: Date.now() });
+      return;
+    }
+    this.pingNonce = createNonce();
+    this.send({ action: Actions.Ping, requestId: uuid(), timestamp: Date.now(), payload: { nonce: this.pingNonce } });
   }
 
   async close(): Promise<void> {
     this.port.close();
-    this.subs.clear();
+    this.dispatcher.clear();
+    for (const [, p] of this.pendingQueries) {
+      p.resolve(
+        new TransportNotConnectedError('[shared-worker-client]', { transport: 'shared-worker', query: p.name })
+      );
+    }
     this.pendingQueries.clear();
     this.rawHandlers.clear();
     this.actionHandlers.clear();
+    this.status.set('closed');
   }
 
   // ---------------------------------------------------------------------------
   // Internal
   // ---------------------------------------------------------------------------
 
-  /* eslint-disable no-empty */
+  /** Password or, in 'challenge' mode, an HMAC proof over the last ping nonce. Without `pongPassword` any Pong counts. */
+  private async pongAccepted(payload: unknown): Promise<boolean> {
+    if (!this.pongPassword.configured) return true;
+    try {
+      await this.pongPassword.get();
+      const passwords = this.pongPassword.known().filter((pw): pw is string => !!pw);
+      if (this.opts.pongAuth !== 'challenge') {
+        const pw = (payload as { password?: unknown } | undefined)?.password;
+        return typeof pw === 'string' && passwords.includes(pw);
+      }
+      const nonce = this.pingNonce;
+      if (!nonce) return false;
+      for (const pw of passwords) {
+        if (!(await verifyPongProof(pw, nonce, (payload ?? {}) as Partial<PongProof>))) continue;
+        this.pingNonce = undefined;
+        return true;
+      }
+      return false;
+    } catch (e) {
+      this.logger.error('pong check failed', { error: e });
+      return false;
+    }
+  }
+
   private async handleIncoming(raw: unknown): Promise<void> {
     const msg = normalize(raw);
-    if (!msg?.action) return;
+    if (!msg?.action) {
+      this.logger.warn('malformed message dropped', { type: typeof raw });
+      return;
+    }
 
     // Raw tap
     for (const h of this.rawHandlers) {
       try {
         h(msg);
-      } catch {}
+      } catch (e) {
+        this.logger.warn('tapRaw handler threw', { action: msg.action, error: e });
+      }
     }
 
     // Action hooks
@@ -165,17 +339,16 @@ export class SharedWorkerClient {
       for (const h of ah) {
         try {
           h(msg);
-        } catch {}
+        } catch (e) {
+          this.logger.warn('onAction handler threw', { action: msg.action, error: e });
+        }
       }
     }
 
     switch (msg.action) {
       case Actions.Pong: {
-        const pw = (msg.payload as any)?.password;
-        const ok = this.opts.pongPassword ? pw === this.opts.pongPassword : true;
-        if (ok) {
-          this.lastPongAt = Date.now();
-          this.online = true;
+        if (await this.pongAccepted(msg.payload)) {
+          this.status.alive();
         }
         return;
       }
@@ -185,41 +358,42 @@ export class SharedWorkerClient {
         const p = msg.payload as OutboxStreamBatchPayload;
         if (!p || !Array.isArray(p.events)) return;
 
-        for (const wire of p.events) {
-          const set = this.subs.get(wire.eventType || 'UnknownEvent');
-          if (!set?.size) continue;
-          const evt = createDomainEventFromWire(wire);
-          for (const h of set) await h(evt);
-        }
-
         // Reply with ACK so worker can advance outbox cursor if configured
         const ack: Message<OutboxStreamAckPayload> = {
           action: Actions.OutboxStreamAck,
           requestId: msg.requestId,
           timestamp: Date.now(),
-          payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+          payload: await this.dispatcher.dispatch(p.events, undefined, msg.traceparent),
         };
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            requestId: msg.requestId,
+            size: p.events.length,
+            okIndices: ack.payload!.okIndices,
+          });
+        }
         this.send(ack);
         return;
       }
 
       case Actions.QueryResponse: {
-        if (!msg.requestId) return;
-        const resolver = this.pendingQueries.get(msg.requestId);
-        if (!resolver) return;
+        const pending = msg.requestId ? this.pendingQueries.get(msg.requestId) : undefined;
+        if (!msg.requestId || !pending) {
+          this.logger.debug('query response without a pending query dropped', { requestId: msg.requestId });
+          return;
+        }
         this.pendingQueries.delete(msg.requestId);
 
-        const pl = msg.payload as QueryResponsePayload;
-        if (pl?.ok === false) throw new Error(String(pl?.err ?? 'query failed'));
-        resolver(pl?.data ?? (pl as any)?.payload);
+        pending.resolve(msg.payload);
         return;
       }
 
       default:
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         return;
     }
   }
-  /* eslint-enable no-empty */
 
   private send(msg: Message): void {
     this.port.postMessage(JSON.stringify(msg));
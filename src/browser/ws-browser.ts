@@ -1,14 +1,53 @@
-import type { Message, OutboxStreamAckPayload, OutboxStreamBatchPayload } from '../core';
-import { Actions, createDomainEventFromWire } from '../core';
+import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DedupStore,
+  InboundMiddleware,
+  Message,
+  OutboxStreamAckPayload,
+  OutboxStreamBatchPayload,
+  QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  onAbort,
+  toQueryOptions,
+  uuid,
+  utf8Len,
+  TRANSPORT_OVERHEAD_WIRE,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  answerPing,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  PayloadTooLargeError,
+  InvalidResponseError,
+  TooManyQueriesInFlightError,
+} from '../core';
 
 /**
  * WsBrowserClient
  * -----------------------------------------------------------------------------
  * Role:
  * - Runs in a real browser (window.WebSocket).
- * - Accepts 'ping' -> replies 'pong' (with optional { password }).
+ * - Accepts 'ping' -> replies 'pong' (with optional { password }, or an HMAC proof in 'challenge' mode).
  * - Accepts 'outbox.stream.batch' -> fan-out to subscribers -> replies 'outbox.stream.ack'.
- * - Does NOT support 'query.request' (browser has no server).
+ * - Sends 'query.request' and matches 'query.response' by correlationId (same as the node WsClient):
+ *   parallel queries, optional in-flight cap with a FIFO queue, one deadline per query.
+ * - Does NOT answer 'query.request' (browser has no server).
+ * - Optional heartbeat watchdog: a socket that stays silent for `heartbeatTimeoutMs` is dropped.
  *
  * Ownership:
  * - Owns a WebSocket to server (ws/wss URL), optional auto-reconnect.
@@ -21,26 +60,84 @@ export class WsBrowserClient {
   private socket?: WebSocket;
   private readonly url: string;
   private readonly protocols?: string | string[];
-  private readonly pongPassword?: string;
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
+  private readonly clientId?: string;
+  private readonly maxBytes: number;
+  private readonly queryTimeoutMs: number;
+  private readonly queryCancelNotice: boolean;
+  private readonly maxInFlight: number;
+  private readonly queueQueries: boolean;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly keepaliveIntervalMs: number;
 
   private reconnect?: { min: number; max: number; factor: number; jitter: number; enabled: boolean };
   private reconnectTimer?: number;
+  private reconnectAttempts = 0;
+  private lastFrameAt = 0;
+  private watchdogTimer?: number;
+  private keepaliveTimer?: number;
   private closedManually = false;
 
-  private subs = new Map<string, Set<(evt: any) => unknown | Promise<unknown>>>();
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
   private rawHandlers = new Set<(m: Message) => void>();
   private actionHandlers = new Map<string, Set<(m: Message) => void>>();
 
+  // correlationId → resolver
+  private pendingQueries = new Map<string, { name: string; resolve: (v: any) => void; reject: (e: any) => void }>();
+  // queries waiting for a free slot when `maxInFlightQueries` is reached
+  private queryQueue: Array<{ name: string; start: () => void; fail: (e: Error) => void }> = [];
+
   constructor(opts: {
     url: string; // ws:// or wss://
     protocols?: string | string[]; // optional subprotocols
-    pongPassword?: string; // will be included in pong.payload.password
+    pongPassword?: Credential; // will be included in pong.payload.password; a provider is called per Pong
+    pongAuth?: PongAuthMode; // 'challenge': answer the Ping nonce with an HMAC (WebCrypto) instead of the password
+    clientId?: string; // bound into the 'challenge' proof
     reconnect?: { minMs?: number; maxMs?: number; factor?: number; jitter?: number; enabled?: boolean };
+    dedup?: DedupStore; // skip (and ACK) events already handled
+    metrics?: MetricsSink; // sink for the built-in transport metrics, e.g. a MetricsRegistry
+    tracer?: Tracer; // spans for queries, batches and handlers; propagates W3C traceparent
+    logger?: Logger; // pino/console-compatible; secrets are redacted
+    maxWireBytes?: number; // default 10 MiB — must match server transportMaxFrameBytes
+    queryTimeoutMs?: number; // default 5000
+    queryCancelNotice?: boolean; // send 'query.cancel' to the server when a query is aborted
+    onlineTimeoutMs?: number; // 'online' falls back to 'open' without a ping/pong for this long (default 15000 ms; 0 = never)
+    maxInFlightQueries?: number; // default unlimited — cap on queries awaiting a response
+    queueQueries?: boolean; // default false — over the cap, wait in FIFO order instead of throwing
+    heartbeatTimeoutMs?: number; // drop the socket (and reconnect if enabled) when no frame arrives this long
+    keepaliveIntervalMs?: number; // send an app-level 'ping' frame this often (browsers expose no protocol ping)
   }) {
     if (!opts?.url) throw new Error('[ws-browser] url is required');
     this.url = opts.url;
     this.protocols = opts.protocols;
-    this.pongPassword = opts.pongPassword;
+    this.pongPassword = new CredentialSource(opts.pongPassword);
+    this.pongAuth = opts.pongAuth ?? 'password';
+    this.clientId = opts.clientId;
+    this.maxBytes = Math.max(1024, opts.maxWireBytes ?? 10 * 1024 * 1024);
+    this.queryTimeoutMs = Math.max(1, opts.queryTimeoutMs ?? 5000);
+    this.queryCancelNotice = !!opts.queryCancelNotice;
+    this.maxInFlight = Math.max(1, opts.maxInFlightQueries ?? Infinity);
+    this.queueQueries = !!opts.queueQueries;
+    this.heartbeatTimeoutMs = Math.max(0, opts.heartbeatTimeoutMs ?? 0);
+    this.keepaliveIntervalMs = Math.max(0, opts.keepaliveIntervalMs ?? 0);
+    this.status = new ConnectionStatus('connecting', { onlineTimeoutMs: opts.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts.metrics, 'ws');
+    this.tracer = new TransportTracer(opts.tracer, 'ws');
+    this.logger = new TransportLogger(opts.logger, 'ws', () => this.pongPassword.known());
+    this.dispatcher = new EventDispatcher({
+      tag: '[ws-browser]',
+      transport: 'ws',
+      ordering: 'sequential',
+      dedup: opts.dedup,
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     const r = opts.reconnect ?? {};
     this.reconnect = {
@@ -59,13 +156,142 @@ export class WsBrowserClient {
   // ---------------------------------------------------------------------------
 
   subscribe<T = any>(constructorName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    const set = this.subs.get(constructorName) ?? new Set();
-    set.add(handler as any);
-    this.subs.set(constructorName, set);
-    return () => set.delete(handler as any);
+    return this.dispatcher.subscribe<T>(constructorName, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
   getSubscriptionCount(constructorName: string): number {
-    return this.subs.get(constructorName)?.size ?? 0;
+    return this.dispatcher.count(constructorName);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Connection state
+  // ---------------------------------------------------------------------------
+
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
+  }
+  /** Timeout of a query that sets none (`queryTimeoutMs`). */
+  get defaultQueryTimeoutMs(): number {
+    return this.queryTimeoutMs;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Query
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Query with one deadline covering queueing and the response (default `queryTimeoutMs`).
+   * Aborting `signal` rejects with AbortError and frees the slot (or the queue position).
+   */
+  async query<TReq = any, TRes = any>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = any, TRes = any>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs = this.queryTimeoutMs, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[ws-browser]', signal);
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new TransportNotConnectedError('[ws-browser]', { transport: 'ws', query: name });
+    }
+    const busy = this.pendingQueries.size >= this.maxInFlight || this.queryQueue.length > 0;
+    if (busy && !this.queueQueries) {
+      throw new TooManyQueriesInFlightError('[ws-browser]', {
+        transport: 'ws',
+        query: name,
+        maxInFlight: this.maxInFlight,
+      });
+    }
+
+    const correlationId = uuid();
+    const requestId = uuid();
+    const req: Message = {
+      action: Actions.QueryRequest,
+      correlationId,
+      requestId,
+      timestamp: Date.now(),
+      payload: { name, dto },
+      traceparent,
+      headers,
+    };
+    const text = JSON.stringify(req);
+    const bytes = utf8Len(text) + TRANSPORT_OVERHEAD_WIRE;
+    if (bytes > this.maxBytes) {
+      throw new PayloadTooLargeError('[ws-browser]', { transport: 'ws', query: name, bytes, maxBytes: this.maxBytes });
+    }
+
+    return new Promise<TRes>((resolve, reject) => {
+      let settled = false;
+      const settle = (err: unknown, data?: TRes) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        offAbort();
+        const queued = this.queryQueue.findIndex((q) => q.start === start);
+        if (queued >= 0) this.queryQueue.splice(queued, 1);
+        if (this.pendingQueries.delete(correlationId)) this.drainQueryQueue();
+        if (err) reject(err);
+        else resolve(data as TRes);
+      };
+      const start = () => {
+        if (settled) return;
+        const s = this.socket;
+        if (!s || s.readyState !== WebSocket.OPEN) {
+          return settle(new TransportNotConnectedError('[ws-browser]', { transport: 'ws', query: name }));
+        }
+        this.pendingQueries.set(correlationId, {
+          name,
+          resolve: (v) => settle(undefined, v),
+          reject: (e) => settle(e),
+        });
+        try {
+          s.send(text);
+        } catch (e) {
+          settle(new TransportNotConnectedError('[ws-browser]', { transport: 'ws', query: name, cause: e }));
+        }
+      };
+
+      const timer = setTimeout(
+        () => settle(new QueryTimeoutError('[ws-browser]', { transport: 'ws', query: name, timeoutMs })),
+        Math.max(1, timeoutMs)
+      );
+      const offAbort = onAbort(signal, () => {
+        const sent = this.pendingQueries.has(correlationId);
+        settle(abortError('[ws-browser]', signal!));
+        if (sent && this.queryCancelNotice) {
+          this.send({ action: Actions.QueryCancel, correlationId, requestId, timestamp: Date.now() });
+        }
+      });
+
+      if (busy) this.queryQueue.push({ name, start, fail: (e) => settle(e) });
+      else start();
+    });
+  }
+
+  /** Start queued queries while slots are free. */
+  private drainQueryQueue(): void {
+    while (this.queryQueue.length > 0 && this.pendingQueries.size < this.maxInFlight) {
+      this.queryQueue.shift()!.start();
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -87,7 +313,6 @@ export class WsBrowserClient {
   // Lifecycle
   // ---------------------------------------------------------------------------
 
-  /* eslint-disable no-empty */
   async close(): Promise<void> {
     this.closedManually = true;
     if (this.reconnectTimer) {
@@ -96,13 +321,24 @@ export class WsBrowserClient {
     }
     try {
       this.socket?.close();
-    } catch {}
+    } catch (e) {
+      this.logger.debug('socket close failed', { error: e });
+    }
     this.socket = undefined;
-    this.subs.clear();
+    this.stopLiveness();
+    this.status.set('closed');
+    const waiting = [...this.pendingQueries.values()]
+      .map(({ name, reject }) => ({ name, fail: reject }))
+      .concat(this.queryQueue);
+    this.pendingQueries.clear();
+    this.queryQueue = [];
+    for (const { name, fail } of waiting)
+      fail(new TransportNotConnectedError('[ws-browser]', { transport: 'ws', query: name }));
+    this.dispatcher.clear();
     this.rawHandlers.clear();
     this.actionHandlers.clear();
+    this.logger.info('closed', { rejectedQueries: waiting.length });
   }
-  /* eslint-enable no-empty */
 
   private open(): void {
     const ws = new WebSocket(this.url, this.protocols);
@@ -111,19 +347,70 @@ export class WsBrowserClient {
 
     ws.onopen = () => {
       /* server drives ping->pong */
+      this.reconnectAttempts = 0;
+      this.status.set('open');
+      this.logger.info('connected', { url: this.url });
+      this.startLiveness(ws);
+    };
+    ws.onmessage = (ev) => {
+      this.lastFrameAt = Date.now();
+      this.handleIncoming((ev as MessageEvent).data);
     };
-    ws.onmessage = (ev) => this.handleIncoming((ev as MessageEvent).data);
     ws.onclose = () => this.onClosed();
     ws.onerror = () => {
-      /* swallow; onclose handles flow */
+      /* onclose handles flow */
+      this.status.fail(new Error('[ws-browser] socket error'));
+      this.logger.warn('socket error', { url: this.url });
     };
   }
 
+  private startLiveness(ws: WebSocket) {
+    this.stopLiveness();
+    this.lastFrameAt = Date.now();
+    if (this.heartbeatTimeoutMs > 0) this.armWatchdog(ws, this.heartbeatTimeoutMs);
+    if (this.keepaliveIntervalMs > 0) {
+      this.keepaliveTimer = setInterval(
+        () => this.send({ action: Actions.Ping, timestamp: Date.now() }),
+        this.keepaliveIntervalMs
+      ) as unknown as number;
+    }
+  }
+
+  private armWatchdog(ws: WebSocket, ms: number) {
+    this.watchdogTimer = setTimeout(() => {
+      if (this.socket !== ws) return;
+      const idle = Date.now() - this.lastFrameAt;
+      if (idle < this.heartbeatTimeoutMs) return this.armWatchdog(ws, this.heartbeatTimeoutMs - idle);
+      // a half-open socket may take minutes to fire onclose, so detach it and move on now
+      this.status.fail(new Error(`[ws-browser] no frame received for ${idle} ms`));
+      this.logger.warn('heartbeat timeout, dropping socket', { idleMs: idle });
+      ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+      try {
+        ws.close(4000, 'heartbeat timeout');
+      } catch (e) {
+        this.logger.debug('socket close failed', { error: e });
+      }
+      this.onClosed();
+    }, ms) as unknown as number;
+  }
+
+  private stopLiveness() {
+    clearTimeout(this.watchdogTimer);
+    clearInterval(this.keepaliveTimer);
+  }
+
   private onClosed() {
+    this.stopLiveness();
     if (this.closedManually) return;
-    if (!this.reconnect?.enabled) return;
+    if (!this.reconnect?.enabled) {
+      this.logger.warn('socket closed, reconnect disabled', { url: this.url });
+      return this.status.set('closed');
+    }
 
+    this.status.set('reconnecting', { attempt: ++this.reconnectAttempts });
+    this.metrics.reconnect();
     const next = computeBackoff(this.reconnect!);
+    this.logger.info('socket closed, reconnecting', { url: this.url, attempt: this.reconnectAttempts, delayMs: next });
     this.reconnectTimer = setTimeout(() => {
       this.reconnect!.min = Math.min(this.reconnect!.max, this.reconnect!.min * this.reconnect!.factor);
       this.open();
@@ -134,34 +421,42 @@ export class WsBrowserClient {
   // Routing
   // ---------------------------------------------------------------------------
 
-  /* eslint-disable no-empty */
   private async handleIncoming(raw: unknown) {
     const msg = normalize(raw);
-    if (!msg?.action) return;
+    if (!msg?.action) {
+      this.logger.warn('malformed message dropped', { type: typeof raw });
+      return;
+    }
 
     // user taps first
     for (const h of this.rawHandlers) {
       try {
         h(msg);
-      } catch {}
+      } catch (e) {
+        this.logger.warn('tapRaw handler threw', { action: msg.action, error: e });
+      }
     }
     const ah = this.actionHandlers.get(msg.action);
     if (ah?.size) {
       for (const h of ah) {
         try {
           h(msg);
-        } catch {}
+        } catch (e) {
+          this.logger.warn('onAction handler threw', { action: msg.action, error: e });
+        }
       }
     }
 
     switch (msg.action) {
       case Actions.Ping: {
-        const pong: Message<{ password?: string }> = {
-          action: Actions.Pong,
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-          timestamp: Date.now(),
-        };
-        this.send(pong);
+        this.status.alive();
+        const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+        answerPing(
+          msg,
+          auth,
+          (payload) => this.send({ action: Actions.Pong, payload, timestamp: Date.now() }),
+          this.logger
+        );
         return;
       }
 
@@ -169,28 +464,44 @@ export class WsBrowserClient {
         const p = msg.payload as OutboxStreamBatchPayload;
         if (!p || !Array.isArray(p.events)) return;
 
-        for (const wire of p.events) {
-          const set = this.subs.get(wire.eventType || 'UnknownEvent');
-          if (!set?.size) continue;
-          const evt = createDomainEventFromWire(wire);
-          for (const h of set) await h(evt);
-        }
-
         const ack: Message<OutboxStreamAckPayload> = {
           action: Actions.OutboxStreamAck,
           timestamp: Date.now(),
-          payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+          payload: await this.dispatcher.dispatch(p.events, undefined, msg.traceparent),
         };
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            requestId: msg.requestId,
+            size: p.events.length,
+            okIndices: ack.payload!.okIndices,
+          });
+        }
         this.send(ack);
         return;
       }
 
-      // 'query.request' intentionally NOT supported on browser side
+      case Actions.QueryResponse: {
+        // late responses (timed out or aborted) and responses without a known correlationId are dropped
+        const pending = msg.correlationId ? this.pendingQueries.get(msg.correlationId) : undefined;
+        if (!pending) {
+          this.logger.debug('query response without a pending query dropped', { correlationId: msg.correlationId });
+          return;
+        }
+        const qr = msg.payload as QueryResponsePayload as any;
+        const ctx = { transport: 'ws', query: pending.name };
+        if (!qr || typeof qr.ok !== 'boolean') pending.reject(new InvalidResponseError('[ws-browser]', ctx));
+        else if (qr.ok === false) pending.reject(new QueryRemoteError('[ws-browser]', { ...ctx, err: qr.err }));
+        else pending.resolve(qr.data);
+        return;
+      }
+
+      // 'query.request' intentionally NOT answered on browser side
       default:
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         return;
     }
   }
-  /* eslint-enable no-empty */
 
   private send(frame: Message | string) {
     const s = this.socket;
@@ -0,0 +1,59 @@
+import { defineContract, defineEvent, defineQuery } from '../contract';
+import { Client } from '../../node/client';
+import type { Client as BrowserClient } from '../../browser/client';
+
+const api = defineContract({
+  events: { UserCreated: defineEvent<{ id: string }>() },
+  queries: {
+    GetUser: defineQuery<{ id: string }, { id: string; name: string }>(),
+    GetStats: defineQuery<undefined, { users: number }>(),
+  },
+});
+
+function fakeClient() {
+  return {
+    subscribe: jest.fn((_name: string, _handler: (evt: any) => unknown) => () => {}),
+    query: jest.fn(async (_name: string, _dto?: any, _timeoutMs?: number): Promise<any> => ({ id: '1', name: 'n' })),
+    close: jest.fn(async () => {}),
+  };
+}
+
+describe('defineContract', () => {
+  it('bind() returns the same instance with typed subscribe/query', async () => {
+    const raw = fakeClient();
+    const c = api.bind(raw);
+    expect(c).toBe(raw);
+
+    c.subscribe('UserCreated', (e) => {
+      const id: string = e.payload.id;
+      return id;
+    });
+    const user = await c.query('GetUser', { id: '1' });
+    const name: string = user.name;
+    expect(name).toBe('n');
+    await c.query('GetStats');
+    await c.close();
+
+    // @ts-expect-error unknown event name
+    c.subscribe('UserCreatd', () => {});
+    // @ts-expect-error wrong DTO shape
+    await c.query('GetUser', { id: 1 });
+    // @ts-expect-error DTO is required
+    await c.query('GetUser');
+
+    expect(raw.subscribe).toHaveBeenCalledWith('UserCreated', expect.any(Function));
+    expect(raw.query).toHaveBeenCalledWith('GetUser', { id: '1' });
+  });
+
+  it('accepts the node Client facade', () => {
+    const c = api.bind(
+      new Client({ transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } } })
+    );
+    expect(typeof c.nodeHttpHandler).toBe('function');
+  });
+
+  it('accepts the browser Client facade (type-level)', () => {
+    const bindBrowser = (b: BrowserClient) => api.bind(b).query('GetUser', { id: '1' });
+    expect(typeof bindBrowser).toBe('function');
+  });
+});
@@ -0,0 +1,27 @@
+import { CredentialSource } from '../credentials';
+
+describe('CredentialSource', () => {
+  it('returns a fixed string as is', async () => {
+    const src = new CredentialSource('t');
+    expect([src.configured, src.dynamic, src.value]).toEqual([true, false, 't']);
+    await expect(src.get()).resolves.toBe('t');
+    expect(src.credential).toBe('t');
+    expect(new CredentialSource().configured).toBe(false);
+  });
+
+  it('calls a provider every time and remembers the current and previous values', async () => {
+    const values = ['a', 'a', 'b', 'c'];
+    const provider = jest.fn(async () => values.shift());
+    const src = new CredentialSource(provider);
+    expect([src.configured, src.dynamic, src.value]).toEqual([true, true, undefined]);
+
+    await expect(src.get()).resolves.toBe('a');
+    await expect(src.get()).resolves.toBe('a');
+    expect(src.known()).toEqual(['a', undefined]);
+    await expect(src.get()).resolves.toBe('b');
+    expect(src.known()).toEqual(['b', 'a']);
+    await expect((src.credential as () => Promise<string>)()).resolves.toBe('c');
+    expect(src.known()).toEqual(['c', 'b']);
+    expect(provider).toHaveBeenCalledTimes(4);
+  });
+});
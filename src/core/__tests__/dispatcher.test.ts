@@ -0,0 +1,246 @@
+import { EventDispatcher } from '../dispatcher';
+import { InMemoryDeadLetterStore } from '../dead-letter';
+import { InMemoryDedupStore } from '../dedup';
+import { InMemoryCheckpointStore } from '../checkpoint';
+import type { WireEventRecord } from '../shared';
+
+function wire(eventType: string, eventVersion: number, payload: any = {}): WireEventRecord {
+  return {
+    modelName: 'M',
+    eventType,
+    eventVersion,
+    requestId: `r${eventVersion}`,
+    blockHeight: null,
+    payload: JSON.stringify(payload),
+    timestamp: 0,
+  };
+}
+
+describe('EventDispatcher', () => {
+  it('ACKs every index when all handlers succeed', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    d.subscribe('A', () => {});
+    await expect(d.dispatch([wire('A', 1), wire('B', 2), wire('A', 3)])).resolves.toEqual({
+      ok: true,
+      okIndices: [0, 1, 2],
+    });
+  });
+
+  it('sequential ordering stops the whole batch at the first failure', async () => {
+    const d = new EventDispatcher({ tag: '[test]', ordering: 'sequential' });
+    d.subscribe('A', (e: any) => {
+      if (e.eventVersion === 2) throw new Error('boom');
+    });
+    d.subscribe('B', () => {});
+    await expect(d.dispatch([wire('A', 1), wire('A', 2), wire('B', 3)])).resolves.toEqual({
+      ok: false,
+      okIndices: [0],
+    });
+  });
+
+  it('runs several handlers of one type in registration order and ACKs only if all succeed', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    const calls: string[] = [];
+    d.subscribe('A', (e: any) => {
+      calls.push(`first:${e.eventVersion}`);
+    });
+    d.subscribe('A', (e: any) => {
+      calls.push(`second:${e.eventVersion}`);
+      if (e.eventVersion === 2) throw new Error('boom');
+    });
+    await expect(d.dispatch([wire('A', 1), wire('A', 2), wire('A', 3)])).resolves.toEqual({
+      ok: false,
+      okIndices: [0],
+    });
+    expect(calls).toEqual(['first:1', 'second:1', 'first:2', 'second:2']);
+  });
+
+  it('parallel strategy starts every handler of an event at once', async () => {
+    const d = new EventDispatcher({ tag: '[test]', handlerStrategy: 'parallel' });
+    const started: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+    d.subscribe('A', async () => {
+      started.push('slow');
+      await gate;
+    });
+    d.subscribe('A', () => {
+      started.push('fast');
+      release();
+    });
+    await expect(d.dispatch([wire('A', 1)])).resolves.toEqual({ ok: true, okIndices: [0] });
+    expect(started).toEqual(['slow', 'fast']);
+  });
+
+  it('routes wildcard, glob and model subscriptions alongside exact types', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    const calls: string[] = [];
+    d.subscribe('UserCreated', (e: any) => calls.push(`exact:${e.eventVersion}`));
+    d.subscribe('User*', (e: any) => calls.push(`glob:${e.eventVersion}`));
+    d.subscribe('*', (e: any) => calls.push(`all:${e.eventVersion}`));
+    d.subscribeModel('M', (e: any) => calls.push(`model:${e.eventVersion}`));
+
+    await expect(d.dispatch([wire('UserCreated', 1), wire('UserDeleted', 2), wire('Other', 3)])).resolves.toEqual({
+      ok: true,
+      okIndices: [0, 1, 2],
+    });
+    expect(calls.filter((c) => c.startsWith('exact'))).toEqual(['exact:1']);
+    expect(calls.filter((c) => c.startsWith('glob'))).toEqual(['glob:1', 'glob:2']);
+    expect(calls.filter((c) => c.startsWith('all'))).toEqual(['all:1', 'all:2', 'all:3']);
+    expect(calls.filter((c) => c.startsWith('model'))).toEqual(['model:1', 'model:2', 'model:3']);
+  });
+
+  it('awaits wildcard-only handlers and ACKs an event only when every matched key succeeded', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    let finished = 0;
+    d.subscribe('*', async () => {
+      await new Promise((r) => setTimeout(r, 5));
+      finished++;
+    });
+    d.subscribeModel('M', (e: any) => {
+      if (e.eventVersion === 2) throw new Error('boom');
+    });
+
+    await expect(d.dispatch([wire('A', 1), wire('B', 2), wire('C', 3)])).resolves.toEqual({
+      ok: false,
+      okIndices: [0],
+    });
+    expect(finished).toBe(3);
+  });
+
+  it('inbound middleware wraps every handler call in registration order', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    const calls: string[] = [];
+    d.use(async (e, ctx, next) => {
+      calls.push(`outer:${e.eventType}`);
+      ctx.state.tenant = 't1';
+      await next();
+      calls.push('outer:after');
+    });
+    d.use((e, ctx, next) => next({ ...e, payload: { ...e.payload, tenant: ctx.state.tenant } }));
+    d.subscribe('A', (e: any) => {
+      calls.push(`handler:${e.payload.tenant}`);
+    });
+
+    await expect(d.dispatch([wire('A', 1)])).resolves.toEqual({ ok: true, okIndices: [0] });
+    expect(calls).toEqual(['outer:A', 'handler:t1', 'outer:after']);
+  });
+
+  it('inbound middleware can skip the handler or fail the event', async () => {
+    const d = new EventDispatcher({ tag: '[test]' });
+    const handler = jest.fn();
+    d.use((e, _ctx, next) => {
+      if (e.eventType === 'Skip') return;
+      if (e.eventType === 'Fail') throw new Error('denied');
+      return next();
+    });
+    d.subscribe('*', handler);
+
+    await expect(d.dispatch([wire('Skip', 1), wire('Fail', 2), wire('Ok', 3)])).resolves.toEqual({
+      ok: false,
+      okIndices: [0],
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a poison event after maxAttempts and ACKs it', async () => {
+    const store = new InMemoryDeadLetterStore();
+    const onDeadLetter = jest.fn();
+    const d = new EventDispatcher({ tag: '[test]', deadLetter: { maxAttempts: 3, onDeadLetter, store } });
+    const seen: number[] = [];
+    d.subscribe('A', (e: any) => {
+      if (e.eventVersion === 1) throw new Error('poison');
+      seen.push(e.eventVersion);
+    });
+
+    const batch = [wire('A', 1), wire('A', 2)];
+    await expect(d.dispatch(batch)).resolves.toEqual({ ok: false, okIndices: [] });
+    await expect(d.dispatch(batch)).resolves.toEqual({ ok: false, okIndices: [] });
+    await expect(d.dispatch(batch)).resolves.toEqual({ ok: true, okIndices: [0, 1] });
+
+    expect(seen).toEqual([2]);
+    expect(onDeadLetter).toHaveBeenCalledTimes(1);
+    expect(onDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ eventVersion: 1 }), expect.any(Error), 3);
+    expect(store.entries.length).toBe(1);
+    expect(store.entries[0]!.attempts).toBe(3);
+  });
+
+  it('keeps the event un-ACKed when the dead-letter sink throws', async () => {
+    const d = new EventDispatcher({
+      tag: '[test]',
+      deadLetter: {
+        maxAttempts: 1,
+        onDeadLetter: () => {
+          throw new Error('sink down');
+        },
+      },
+    });
+    d.subscribe('A', () => {
+      throw new Error('poison');
+    });
+    await expect(d.dispatch([wire('A', 1)])).resolves.toEqual({ ok: false, okIndices: [] });
+  });
+
+  it('skips and ACKs events already recorded in the dedup store', async () => {
+    const dedup = new InMemoryDedupStore({ maxEntries: 2 });
+    const d = new EventDispatcher({ tag: '[test]', dedup });
+    const seen: number[] = [];
+    d.subscribe('A', (e: any) => {
+      seen.push(e.eventVersion);
+    });
+
+    await d.dispatch([wire('A', 1), wire('A', 2)]);
+    await expect(d.dispatch([wire('A', 1), wire('A', 2), wire('A', 3)])).resolves.toEqual({
+      ok: true,
+      okIndices: [0, 1, 2],
+    });
+    expect(seen).toEqual([1, 2, 3]);
+    expect(dedup.entries()).toEqual(['M:2', 'M:3']);
+  });
+
+  it('checkpoints: backfills a version gap before continuing the model', async () => {
+    const store = new InMemoryCheckpointStore();
+    store.set('M', 1);
+    const query = jest.fn(async () => [wire('A', 2), wire('B', 3)]);
+    const d = new EventDispatcher({ tag: '[test]', checkpoints: { store }, query });
+    const seen: number[] = [];
+    d.subscribe('A', (e: any) => {
+      seen.push(e.eventVersion);
+    });
+
+    await expect(d.dispatch([wire('A', 1), wire('A', 4)])).resolves.toEqual({ ok: true, okIndices: [0, 1] });
+    expect(query).toHaveBeenCalledWith('FetchEventsQuery', { modelName: 'M', fromVersion: 2, toVersion: 3 });
+    expect(seen).toEqual([2, 4]);
+    expect(store.get('M')).toBe(4);
+  });
+
+  it('checkpoints: an unfilled gap keeps the event un-ACKed', async () => {
+    const store = new InMemoryCheckpointStore();
+    store.set('M', 1);
+    const d = new EventDispatcher({ tag: '[test]', checkpoints: { store }, query: async () => [] });
+    d.subscribe('A', () => {});
+
+    await expect(d.dispatch([wire('A', 3)])).resolves.toEqual({ ok: false, okIndices: [] });
+    expect(store.get('M')).toBe(1);
+  });
+
+  it('checkpoints: a hung handler releases its model when the batch times out', async () => {
+    const store = new InMemoryCheckpointStore();
+    store.set('M', 1);
+    const d = new EventDispatcher({ tag: '[test]', checkpoints: { store }, query: async () => [] });
+    let release!: () => void;
+    const hung = new Promise<void>((r) => (release = r));
+    let calls = 0;
+    d.subscribe('A', () => (++calls === 1 ? hung : undefined));
+
+    await expect(d.dispatch([wire('A', 2)], 30)).resolves.toEqual({ ok: false, okIndices: [] });
+    // redelivery of the same batch is not stuck behind the hung handler
+    await expect(d.dispatch([wire('A', 2)], 30)).resolves.toEqual({ ok: true, okIndices: [0] });
+    expect(store.get('M')).toBe(2);
+
+    release();
+    await new Promise((r) => setImmediate(r));
+    expect(calls).toBe(2);
+    expect(store.get('M')).toBe(2);
+  });
+});
@@ -0,0 +1,96 @@
+import { EventDispatcher } from '../dispatcher';
+import {
+  BatchTimeoutError,
+  CredentialUnavailableError,
+  InvalidResponseError,
+  PayloadTooLargeError,
+  QueryRemoteError,
+  QueryTimeoutError,
+  TooManyQueriesInFlightError,
+  TransportError,
+  TransportNotConnectedError,
+} from '../errors';
+import type { Logger } from '../logger';
+import { TransportLogger } from '../logger';
+import { isRetryableQueryError } from '../retry';
+import type { WireEventRecord } from '../shared';
+
+describe('transport errors', () => {
+  it('carry a stable code, the transport kind and the query name', () => {
+    const ctx = { transport: 'ws', query: 'GetThing' };
+    const errors = [
+      new TransportNotConnectedError('[ws-client]', ctx),
+      new QueryTimeoutError('[ws-client]', { ...ctx, timeoutMs: 50 }),
+      new QueryRemoteError('[ws-client]', { ...ctx, err: 'not found' }),
+      new PayloadTooLargeError('[ws-client]', { ...ctx, bytes: 2048, maxBytes: 1024 }),
+      new InvalidResponseError('[ws-client]', ctx),
+      new TooManyQueriesInFlightError('[ws-client]', { ...ctx, maxInFlight: 4 }),
+      new CredentialUnavailableError('[ws-client]', ctx),
+    ];
+    expect(errors.map((e) => [e.code, e.name, e.transport, e.query])).toEqual([
+      ['TRANSPORT_NOT_CONNECTED', 'TransportNotConnectedError', 'ws', 'GetThing'],
+      ['QUERY_TIMEOUT', 'QueryTimeoutError', 'ws', 'GetThing'],
+      ['QUERY_REMOTE', 'QueryRemoteError', 'ws', 'GetThing'],
+      ['PAYLOAD_TOO_LARGE', 'PayloadTooLargeError', 'ws', 'GetThing'],
+      ['INVALID_RESPONSE', 'InvalidResponseError', 'ws', 'GetThing'],
+      ['TOO_MANY_IN_FLIGHT', 'TooManyQueriesInFlightError', 'ws', 'GetThing'],
+      ['CREDENTIAL_UNAVAILABLE', 'CredentialUnavailableError', 'ws', 'GetThing'],
+    ]);
+    for (const e of errors) expect(e).toBeInstanceOf(TransportError);
+    expect(errors.map((e) => e.message)).toEqual([
+      '[ws-client] not connected',
+      '[ws-client] query timeout',
+      '[ws-client] query failed: not found',
+      '[ws-client] query payload too large (2048 > 1024 bytes)',
+      '[ws-client] invalid query response',
+      '[ws-client] too many queries in flight',
+      '[ws-client] credential unavailable',
+    ]);
+    const cause = new Error('EPIPE');
+    expect(new TransportNotConnectedError('[ws-client]', { ...ctx, cause }).cause).toBe(cause);
+
+    const http = new QueryRemoteError('[client-http]', { transport: 'http', query: 'Q', err: 'unavailable', status: 503 });
+    expect(http).toMatchObject({ message: '[client-http] 503 unavailable', status: 503, err: 'unavailable' });
+  });
+
+  it('are classified for retries by code and HTTP status', () => {
+    const ctx = { transport: 'http', query: 'Q' };
+    expect(isRetryableQueryError(new QueryTimeoutError('[client-http]', ctx))).toBe(true);
+    expect(isRetryableQueryError(new TransportNotConnectedError('[client-http]', ctx))).toBe(true);
+    expect(isRetryableQueryError(new QueryRemoteError('[client-http]', { ...ctx, err: '', status: 502 }))).toBe(true);
+    expect(isRetryableQueryError(new QueryRemoteError('[client-http]', { ...ctx, err: 'timeout in handler' }))).toBe(false);
+    expect(isRetryableQueryError(new QueryRemoteError('[client-http]', { ...ctx, err: '', status: 404 }))).toBe(false);
+    expect(isRetryableQueryError(new InvalidResponseError('[client-http]', ctx))).toBe(false);
+    expect(isRetryableQueryError(new TooManyQueriesInFlightError('[client-http]', { ...ctx, maxInFlight: 1 }))).toBe(false);
+  });
+
+  it('a batch timeout is logged as BatchTimeoutError with its code', async () => {
+    const records: any[] = [];
+    const at = (level: string) => (fields: any, msg?: string) => records.push({ level, msg, ...fields });
+    const logger: Logger = { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+    const d = new EventDispatcher({ tag: '[ws-client]', transport: 'ws', logger: new TransportLogger(logger, 'ws') });
+    d.subscribe('Slow', () => new Promise((r) => setTimeout(r, 200)));
+    const wire: WireEventRecord = {
+      modelName: 'M',
+      eventType: 'Slow',
+      eventVersion: 1,
+      requestId: 'r1',
+      blockHeight: null,
+      payload: '{}',
+      timestamp: 0,
+    };
+
+    await expect(d.dispatch([wire], 10)).resolves.toEqual({ ok: false, okIndices: [] });
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'warn',
+        size: 1,
+        acked: 0,
+        error: expect.objectContaining({ name: 'BatchTimeoutError', code: 'BATCH_TIMEOUT' }),
+      })
+    );
+    expect(new BatchTimeoutError('[ws-client]', { transport: 'ws', size: 1, acked: 0, timeoutMs: 10 }).code).toBe(
+      'BATCH_TIMEOUT'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { AbortError } from '../abort';
+import { paginateEvents } from '../fetch-events';
+import { QueryCache } from '../query-cache';
+import { decodeEventPayloads, runQueryChain } from '../query-interceptor';
+
+function history(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    modelName: 'M',
+    eventType: 'E',
+    eventVersion: i + 1,
+    requestId: 'r',
+    blockHeight: null,
+    payload: JSON.stringify({ n: i + 1 }),
+    timestamp: 0,
+  }));
+}
+
+function server(count: number) {
+  const events = history(count);
+  return jest.fn(async (_name: string, dto: any, _opts?: unknown) =>
+    events.filter((e) => e.eventVersion >= dto.fromVersion && e.eventVersion <= dto.toVersion).reverse()
+  );
+}
+
+// What the facade's query chain hands over: payloads already parsed.
+function decoded(query: ReturnType<typeof server>) {
+  return jest.fn(async (name: string, dto: any, opts?: unknown) =>
+    (await query(name, dto, opts)).map((e) => ({ ...e, payload: JSON.parse(e.payload) }))
+  );
+}
+
+describe('paginateEvents', () => {
+  it('pages through the history in version order', async () => {
+    const query = decoded(server(5));
+    const seen: unknown[] = [];
+    for await (const evt of paginateEvents(query, { modelName: 'M', fromVersion: 2, pageSize: 2 })) {
+      seen.push(evt.payload);
+    }
+    expect(seen).toEqual([{ n: 2 }, { n: 3 }, { n: 4 }, { n: 5 }]);
+    expect(query.mock.calls.map((c) => c[1])).toEqual([
+      { modelName: 'M', fromVersion: 2, toVersion: 3 },
+      { modelName: 'M', fromVersion: 4, toVersion: 5 },
+      { modelName: 'M', fromVersion: 6, toVersion: 7 },
+    ]);
+  });
+
+  it('stops at toVersion and requests the next page only when the current one is consumed', async () => {
+    const query = server(10);
+    const it = paginateEvents(query, { modelName: 'M', toVersion: 3, pageSize: 2 })[Symbol.asyncIterator]();
+    await it.next();
+    expect(query).toHaveBeenCalledTimes(1);
+    const rest = [(await it.next()).value?.eventVersion, (await it.next()).value?.eventVersion];
+    expect(rest).toEqual([2, 3]);
+    expect((await it.next()).done).toBe(true);
+    expect(query.mock.calls[1]![1]).toEqual({ modelName: 'M', fromVersion: 3, toVersion: 3 });
+  });
+
+  it('rejects with AbortError once the signal aborts', async () => {
+    const ac = new AbortController();
+    const query = server(10);
+    const it = paginateEvents(query, { modelName: 'M', pageSize: 5, signal: ac.signal })[Symbol.asyncIterator]();
+    await it.next();
+    ac.abort();
+    await expect(it.next()).rejects.toBeInstanceOf(AbortError);
+    expect(query.mock.calls[0]![2]).toEqual({ timeoutMs: undefined, signal: ac.signal });
+  });
+
+  it('behind a default cache and the decoder: every page reaches the server and is parsed once', async () => {
+    const events = history(2).map((e) => ({ ...e, payload: JSON.stringify(JSON.stringify({ n: e.eventVersion })) }));
+    const send = jest.fn(async () => ({ events }));
+    const cache = new QueryCache({ ttlMs: 60_000 });
+    const query = (name: string, dto: unknown) =>
+      runQueryChain([cache.interceptor, decodeEventPayloads], { name, dto, meta: {} }, send);
+
+    for (let round = 0; round < 2; round++) {
+      const seen: unknown[] = [];
+      for await (const evt of paginateEvents(query, { modelName: 'M', toVersion: 2 })) seen.push(evt.payload);
+      expect(seen).toEqual(['{"n":1}', '{"n":2}']);
+    }
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
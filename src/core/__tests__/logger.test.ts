@@ -0,0 +1,68 @@
+import { EventDispatcher } from '../dispatcher';
+import type { Logger } from '../logger';
+import { TransportLogger } from '../logger';
+
+function memoryLogger() {
+  const records: { level: string; msg?: string; fields: any }[] = [];
+  const at = (level: string) => (fields: any, msg?: string) => records.push({ level, msg, fields });
+  const logger: Logger = { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+  return { logger, records };
+}
+
+describe('TransportLogger', () => {
+  it('redacts secret fields at any depth and the transport secrets inside strings', () => {
+    const { logger, records } = memoryLogger();
+    let token = 'tok-1';
+    const log = new TransportLogger(logger, 'ws', () => [token, 'pw', undefined]);
+
+    log.warn('send failed', {
+      payload: { password: 'pw', nested: { Authorization: 'Bearer x' } },
+      error: new Error('bad token tok-1 for pw'),
+    });
+    token = 'tok-2';
+    log.info('connected', { url: 'wss://host/?t=tok-2' });
+
+    expect(records).toEqual([
+      {
+        level: 'warn',
+        msg: 'send failed',
+        fields: {
+          transport: 'ws',
+          payload: { password: '[REDACTED]', nested: { Authorization: '[REDACTED]' } },
+          error: { name: 'Error', message: 'bad token [REDACTED] for [REDACTED]' },
+        },
+      },
+      { level: 'info', msg: 'connected', fields: { transport: 'ws', url: 'wss://host/?t=[REDACTED]' } },
+    ]);
+  });
+
+  it('is silent without a logger and ignores a throwing one', () => {
+    expect(() => new TransportLogger(undefined, 'ws').error('x')).not.toThrow();
+    const throwing = { debug() {}, info() {}, warn() {}, error: () => { throw new Error('down'); } };
+    expect(() => new TransportLogger(throwing, 'ws').error('x')).not.toThrow();
+  });
+
+  it('dispatcher logs handler failures with the event identity', async () => {
+    const { logger, records } = memoryLogger();
+    const d = new EventDispatcher({ tag: '[t]', logger: new TransportLogger(logger, 'http') });
+    d.subscribe('Bad', () => {
+      throw new Error('boom');
+    });
+    await d.dispatch([{ eventType: 'Bad', modelName: 'M', eventVersion: 3, requestId: 'r1', payload: '{}' }] as any);
+
+    expect(records).toEqual([
+      {
+        level: 'error',
+        msg: 'handler failed, event left un-ACKed',
+        fields: {
+          transport: 'http',
+          eventType: 'Bad',
+          modelName: 'M',
+          eventVersion: 3,
+          requestId: 'r1',
+          error: { name: 'Error', message: 'boom' },
+        },
+      },
+    ]);
+  });
+});
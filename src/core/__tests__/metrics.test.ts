@@ -0,0 +1,67 @@
+import { abortError } from '../abort';
+import { EventDispatcher } from '../dispatcher';
+import { QueryTimeoutError } from '../errors';
+import { METRICS, MetricsRegistry, TransportMetrics, formatPrometheus } from '../metrics';
+
+describe('metrics', () => {
+  it('dispatcher records batches, timeouts and handler outcomes per event type', async () => {
+    const registry = new MetricsRegistry();
+    const d = new EventDispatcher({ tag: '[t]', metrics: new TransportMetrics(registry, 'ws') });
+    d.subscribe('Ok', () => {});
+    d.subscribe('Bad', () => {
+      throw new Error('boom');
+    });
+    d.subscribe('Slow', () => new Promise((r) => setTimeout(r, 50)));
+
+    await d.dispatch([{ eventType: 'Ok' }, { eventType: 'Bad' }] as any);
+    await d.dispatch([{ eventType: 'Slow' }] as any, 5);
+
+    const text = formatPrometheus(registry);
+    expect(text).toContain(`${METRICS.batches.name}{transport="ws"} 2`);
+    expect(text).toContain(`${METRICS.batchTimeouts.name}{transport="ws"} 1`);
+    expect(text).toContain(`${METRICS.handlerErrors.name}{event_type="Bad",transport="ws"} 1`);
+    expect(text).toContain(`${METRICS.batchSize.name}_bucket{transport="ws",le="1"} 1`);
+    expect(text).toContain(`${METRICS.batchSize.name}_bucket{transport="ws",le="+Inf"} 2`);
+    expect(text).toContain(`${METRICS.batchSize.name}_sum{transport="ws"} 3`);
+    expect(text).toContain(`${METRICS.handlerDuration.name}_count{event_type="Ok",transport="ws"} 1`);
+  });
+
+  it('query outcomes are labelled ok, error, timeout and aborted', async () => {
+    const registry = new MetricsRegistry();
+    const m = new TransportMetrics(registry, 'http');
+    await m.query('Q', async () => 1);
+    await expect(m.query('Q', async () => Promise.reject(new Error('[client-http] 500')))).rejects.toThrow('500');
+    await expect(m.query('Q', async () => Promise.reject(new QueryTimeoutError('[client-http]', { transport: 'http', query: 'Q' })))).rejects.toThrow();
+    await expect(m.query('Q', async () => Promise.reject(abortError('[client-http]', AbortSignal.abort())))).rejects.toThrow();
+
+    const queries = registry.snapshot().find((s) => s.name === METRICS.queries.name)!;
+    expect(queries.series.map((s: any) => [s.labels.outcome, s.value])).toEqual([
+      ['ok', 1],
+      ['error', 1],
+      ['timeout', 1],
+      ['aborted', 1],
+    ]);
+  });
+
+  it('a throwing sink never affects the transport', async () => {
+    const sink = {
+      increment: () => {
+        throw new Error('sink down');
+      },
+      observe: () => {
+        throw new Error('sink down');
+      },
+    };
+    const m = new TransportMetrics(sink, 'ws');
+    await expect(m.query('Q', async () => 'data')).resolves.toBe('data');
+    expect(() => m.reconnect()).not.toThrow();
+  });
+
+  it('escapes label values in the exposition format', () => {
+    const registry = new MetricsRegistry();
+    registry.increment('custom_total', { name: 'a"b\\c\nd' });
+    expect(formatPrometheus(registry)).toBe(
+      '# HELP custom_total custom_total\n# TYPE custom_total counter\ncustom_total{name="a\\"b\\\\c\\nd"} 1\n'
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { createNonce, pongPayload, pongProof, verifyPongProof } from '../pong-auth';
+import { Actions } from '../shared';
+import type { Message } from '../shared';
+
+describe('challenge-response pong', () => {
+  it('a proof verifies only for the same password, nonce and clientId', async () => {
+    const nonce = createNonce();
+    expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(createNonce()).not.toBe(nonce);
+
+    const mac = await pongProof('pw', nonce, 'c1');
+    expect(mac).toMatch(/^[0-9a-f]{64}$/);
+    await expect(verifyPongProof('pw', nonce, { clientId: 'c1', nonce, mac })).resolves.toBe(true);
+    await expect(verifyPongProof('other', nonce, { clientId: 'c1', nonce, mac })).resolves.toBe(false);
+    await expect(verifyPongProof('pw', nonce, { clientId: 'c2', nonce, mac })).resolves.toBe(false);
+    await expect(verifyPongProof('pw', createNonce(), { clientId: 'c1', nonce, mac })).resolves.toBe(false);
+    await expect(verifyPongProof('pw', nonce, { clientId: 'c1', nonce, mac: 'zz' })).resolves.toBe(false);
+  });
+
+  it('challenge mode never falls back to the clear-text password', async () => {
+    const warn = jest.fn();
+    const logger = { warn } as any;
+    const ping: Message = { action: Actions.Ping, timestamp: 0, payload: { nonce: 'abc' } };
+
+    await expect(pongPayload(ping, { password: 'pw' })).resolves.toEqual({ password: 'pw' });
+    const proof = await pongPayload(ping, { mode: 'challenge', password: 'pw', clientId: 'c1' });
+    expect(proof).toEqual({ clientId: 'c1', nonce: 'abc', mac: await pongProof('pw', 'abc', 'c1') });
+    expect(JSON.stringify(proof)).not.toContain('"pw"');
+
+    await expect(
+      pongPayload({ action: Actions.Ping, timestamp: 0 }, { mode: 'challenge', password: 'pw' }, logger)
+    ).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('ping without a challenge nonce, pong sent without credentials', {
+      action: Actions.Ping,
+    });
+  });
+});
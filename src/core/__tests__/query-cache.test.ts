@@ -0,0 +1,90 @@
+import { QueryCache, cacheKey } from '../query-cache';
+import { runQueryChain } from '../query-interceptor';
+import type { DomainEvent } from '../shared';
+
+function setup(cache: QueryCache) {
+  let n = 0;
+  const send = jest.fn(async (c: any) => ({ name: c.name, n: ++n }));
+  const query = (name: string, dto?: unknown) => runQueryChain([cache.interceptor], { name, dto, meta: {} }, send);
+  return { send, query };
+}
+
+function event(eventType: string, modelName: string): DomainEvent {
+  return { modelName, eventType, eventVersion: 1, requestId: 'r', blockHeight: null, payload: {}, timestamp: 0 };
+}
+
+describe('QueryCache', () => {
+  it('serves fresh hits and coalesces concurrent misses', async () => {
+    const { send, query } = setup(new QueryCache({ ttlMs: 1000 }));
+    const [a, b] = await Promise.all([query('GetModelsQuery', { a: 1, b: 2 }), query('GetModelsQuery', { b: 2, a: 1 })]);
+    expect(a).toBe(b);
+    await expect(query('GetModelsQuery', { a: 1, b: 2 })).resolves.toBe(a);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(cacheKey('Q', { a: 1, b: 2 })).toBe(cacheKey('Q', { b: 2, a: 1 }));
+    expect(cacheKey('Q', {}, { 'x-tenant': 'a' })).not.toBe(cacheKey('Q', {}, { 'x-tenant': 'b' }));
+    expect(cacheKey('Q', {}, {})).toBe(cacheKey('Q', {}));
+  });
+
+  it('leaves FetchEventsQuery out unless it is listed', async () => {
+    const byDefault = setup(new QueryCache());
+    await byDefault.query('FetchEventsQuery', { modelName: 'M' });
+    await byDefault.query('FetchEventsQuery', { modelName: 'M' });
+    expect(byDefault.send).toHaveBeenCalledTimes(2);
+
+    const listed = setup(new QueryCache({ queries: ['FetchEventsQuery'] }));
+    await listed.query('FetchEventsQuery', { modelName: 'M' });
+    await listed.query('FetchEventsQuery', { modelName: 'M' });
+    expect(listed.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('only caches the listed queries and evicts beyond maxEntries', async () => {
+    const cache = new QueryCache({ queries: ['Cached'], maxEntries: 2 });
+    const { send, query } = setup(cache);
+    await query('Other');
+    await query('Other');
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await query('Cached', { i: 1 });
+    await query('Cached', { i: 2 });
+    await query('Cached', { i: 3 });
+    expect(cache.size).toBe(2);
+    await query('Cached', { i: 1 });
+    expect(send).toHaveBeenCalledTimes(6);
+  });
+
+  it('returns stale results while revalidating in the background', async () => {
+    const { send, query } = setup(new QueryCache({ ttlMs: 0, staleWhileRevalidateMs: 10_000 }));
+    const first = await query('Q');
+    await expect(query('Q')).resolves.toBe(first);
+    await new Promise((r) => setTimeout(r, 0));
+    expect(send).toHaveBeenCalledTimes(2);
+    await expect(query('Q')).resolves.toEqual({ name: 'Q', n: 2 });
+  });
+
+  it('drops entries of the same model when a matching event arrives', async () => {
+    const cache = new QueryCache({ invalidate: [{ on: 'BasicWallet*', queries: ['GetBalanceQuery'] }] });
+    const handlers: Array<[string, (evt: DomainEvent) => void]> = [];
+    cache.watch((type, h) => handlers.push([type, h]));
+    const { send, query } = setup(cache);
+
+    await query('GetBalanceQuery', { modelName: 'w1' });
+    await query('GetBalanceQuery', { modelName: 'w2' });
+    expect(handlers.map(([t]) => t)).toEqual(['BasicWallet*']);
+    handlers[0]![1](event('BasicWalletDelta', 'w1'));
+
+    await query('GetBalanceQuery', { modelName: 'w1' });
+    await query('GetBalanceQuery', { modelName: 'w2' });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not store a result whose request was in flight during invalidation', async () => {
+    const cache = new QueryCache();
+    let release!: (v: unknown) => void;
+    const send = jest.fn(() => new Promise((r) => (release = r)));
+    const pending = runQueryChain([cache.interceptor], { name: 'Q', meta: {} }, send);
+    cache.invalidate('Q');
+    release('old');
+    await expect(pending).resolves.toBe('old');
+    expect(cache.size).toBe(0);
+  });
+});
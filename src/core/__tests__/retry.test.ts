@@ -0,0 +1,65 @@
+import { AbortError } from '../abort';
+import { isRetryableQueryError, withRetry } from '../retry';
+
+function failing(errors: Error[], result = 'ok') {
+  return jest.fn(async (_timeoutMs: number | undefined) => {
+    const e = errors.shift();
+    if (e) throw e;
+    return result;
+  });
+}
+
+describe('withRetry', () => {
+  it('does not retry unless the call is marked idempotent', async () => {
+    const attempt = failing([new Error('[ws-client] not connected')]);
+    await expect(withRetry(attempt, 1000, { maxAttempts: 3, initialDelayMs: 1 })).rejects.toThrow('not connected');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient errors with the remaining time as attempt timeout', async () => {
+    const attempt = failing([new Error('[client-http] query timeout'), new Error('[client-http] 503 unavailable')]);
+    await expect(withRetry(attempt, 1000, { idempotent: true, maxAttempts: 3, initialDelayMs: 1 })).resolves.toBe('ok');
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(attempt.mock.calls[0]![0]).toBe(1000);
+    expect(attempt.mock.calls[2]![0]).toBeLessThanOrEqual(1000);
+  });
+
+  it('gives up on non-retryable errors and when attempts run out', async () => {
+    const remote = failing([new Error('[client-http] 404 not found')]);
+    await expect(withRetry(remote, 1000, { idempotent: true, initialDelayMs: 1 })).rejects.toThrow('404');
+    expect(remote).toHaveBeenCalledTimes(1);
+
+    const flaky = failing([new Error('query timeout'), new Error('query timeout')]);
+    await expect(withRetry(flaky, 1000, { idempotent: true, maxAttempts: 2, initialDelayMs: 1 })).rejects.toThrow(
+      'query timeout'
+    );
+    expect(flaky).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not start a backoff that would cross the overall deadline', async () => {
+    const attempt = failing([new Error('query timeout')]);
+    await expect(withRetry(attempt, 50, { idempotent: true, initialDelayMs: 200, jitter: 0 })).rejects.toThrow(
+      'query timeout'
+    );
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops the backoff when the signal aborts', async () => {
+    const ac = new AbortController();
+    const attempt = failing([new Error('query timeout'), new Error('query timeout')]);
+    const pending = withRetry(attempt, 10_000, { idempotent: true, initialDelayMs: 5_000, jitter: 0 }, ac.signal);
+    await new Promise((r) => setTimeout(r, 0));
+    ac.abort();
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(attempt).toHaveBeenCalledTimes(1);
+    expect(isRetryableQueryError(new AbortError())).toBe(false);
+  });
+
+  it('classifies transport errors', () => {
+    expect(isRetryableQueryError(Object.assign(new Error('x'), { code: 'ECONNREFUSED' }))).toBe(true);
+    expect(isRetryableQueryError(new Error('[ipc-parent] query timeout'))).toBe(true);
+    expect(isRetryableQueryError(new Error('[client-http] 502'))).toBe(true);
+    expect(isRetryableQueryError(new Error('[client-http] 400 bad dto'))).toBe(false);
+    expect(isRetryableQueryError(new Error('[client-http] query payload too large'))).toBe(false);
+  });
+});
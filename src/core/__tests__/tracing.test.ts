@@ -0,0 +1,71 @@
+import { EventDispatcher } from '../dispatcher';
+import type { Span, SpanContext, StartSpanOptions, Tracer } from '../tracing';
+import { TransportTracer, formatTraceparent, parseTraceparent } from '../tracing';
+
+const REMOTE = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+type Recorded = { name: string; options: StartSpanOptions; ctx: SpanContext; ended: boolean; error?: unknown };
+
+function recordingTracer() {
+  const spans: Recorded[] = [];
+  let next = 0;
+  const tracer: Tracer = {
+    startSpan(name, options) {
+      const ctx = {
+        traceId: options.parent?.traceId ?? 'f'.repeat(32),
+        spanId: (++next).toString(16).padStart(16, '0'),
+        traceFlags: 1,
+      };
+      const rec: Recorded = { name, options, ctx, ended: false };
+      spans.push(rec);
+      const span: Span = {
+        spanContext: () => ctx,
+        setAttribute: () => span,
+        recordException: (e) => (rec.error = e),
+        setStatus: () => span,
+        end: () => (rec.ended = true),
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+describe('tracing', () => {
+  it('parses and formats W3C traceparent', () => {
+    const ctx = parseTraceparent(REMOTE)!;
+    expect(ctx).toEqual({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331', traceFlags: 1 });
+    expect(formatTraceparent(ctx)).toBe(REMOTE);
+    expect(parseTraceparent('00-' + '0'.repeat(32) + '-b7ad6b7169203331-01')).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(parseTraceparent(undefined)).toBeUndefined();
+  });
+
+  it('batch span continues the remote trace and parents every handler span', async () => {
+    const { tracer, spans } = recordingTracer();
+    const d = new EventDispatcher({ tag: '[t]', tracer: new TransportTracer(tracer, 'ws') });
+    const seen: (string | undefined)[] = [];
+    d.use((_evt, ctx, next) => {
+      seen.push(ctx.traceparent);
+      return next();
+    });
+    d.subscribe('A', () => {});
+    d.subscribe('B', () => {
+      throw new Error('boom');
+    });
+
+    await d.dispatch([{ eventType: 'A' }, { eventType: 'B' }] as any, undefined, REMOTE);
+
+    const [batch, a, b] = spans;
+    expect(batch).toMatchObject({ name: 'dispatch batch', options: { kind: 'consumer', parent: parseTraceparent(REMOTE) } });
+    expect(a).toMatchObject({ name: 'handle A', options: { kind: 'internal', parent: batch!.ctx } });
+    expect(b).toMatchObject({ name: 'handle B', options: { parent: batch!.ctx }, error: expect.any(Error) });
+    expect(spans.every((s) => s.ended)).toBe(true);
+    expect(seen).toEqual([formatTraceparent(a!.ctx), formatTraceparent(b!.ctx)]);
+  });
+
+  it('without a tracer the incoming traceparent passes through unchanged', async () => {
+    const t = new TransportTracer(undefined, 'ws');
+    await expect(t.query('Q', REMOTE, async (traceparent) => traceparent)).resolves.toBe(REMOTE);
+  });
+});
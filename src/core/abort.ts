@@ -0,0 +1,62 @@
+/** Rejection of a query cancelled through its `AbortSignal`. */
+export class AbortError extends Error {
+  /** `signal.reason`, when the caller supplied one. */
+  readonly reason?: unknown;
+
+  constructor(message = 'query aborted', reason?: unknown) {
+    super(message);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/** Per-call options accepted by every transport's `query()`. A bare number means `{ timeoutMs }`. */
+export type TransportQueryOptions = {
+  timeoutMs?: number;
+  /** Aborting rejects the query with AbortError and frees its pending slot. */
+  signal?: AbortSignal;
+  /** W3C traceparent of the caller's span; the query span becomes its child. */
+  traceparent?: string;
+  /** Transport-level metadata (auth, tenant...): HTTP request headers, or the `headers` field of the envelope. */
+  headers?: Record<string, string>;
+};
+
+export function toQueryOptions(opts?: number | TransportQueryOptions): TransportQueryOptions {
+  return typeof opts === 'number' ? { timeoutMs: opts } : opts ?? {};
+}
+
+export function abortError(tag: string, signal: AbortSignal): AbortError {
+  return new AbortError(`${tag} query aborted`, signal.reason);
+}
+
+/**
+ * Call `fn` once when `signal` aborts (at once if it already has).
+ * Returns a remover; call it when the operation settles to drop the listener.
+ */
+export function onAbort(signal: AbortSignal | undefined, fn: () => void): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    fn();
+    return () => {};
+  }
+  signal.addEventListener('abort', fn, { once: true });
+  return () => signal.removeEventListener('abort', fn);
+}
+
+/** Settle like `p`, or reject with AbortError as soon as `signal` aborts. `p` itself is not cancelled. */
+export function raceAbort<T>(p: Promise<T>, signal: AbortSignal | undefined, tag = '[query]'): Promise<T> {
+  if (!signal) return p;
+  return new Promise<T>((resolve, reject) => {
+    const off = onAbort(signal, () => reject(abortError(tag, signal)));
+    p.then(
+      (v) => {
+        off();
+        resolve(v);
+      },
+      (e) => {
+        off();
+        reject(e);
+      }
+    );
+  });
+}
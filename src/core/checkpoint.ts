@@ -0,0 +1,173 @@
+import type { WireEventRecord } from './shared';
+import type { TransportLogger } from './logger';
+
+/** Built-in server query used to backfill missing versions. */
+export const FETCH_EVENTS_QUERY = 'FetchEventsQuery';
+
+/** Persists the last processed eventVersion per modelName. Sync or async. */
+export interface CheckpointStore {
+  get(modelName: string): number | undefined | Promise<number | undefined>;
+  set(modelName: string, eventVersion: number): void | Promise<void>;
+}
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private versions = new Map<string, number>();
+
+  get(modelName: string): number | undefined {
+    return this.versions.get(modelName);
+  }
+
+  set(modelName: string, eventVersion: number): void {
+    this.versions.set(modelName, eventVersion);
+  }
+}
+
+/** Inclusive range of missing versions of one model. */
+export type VersionRange = { modelName: string; fromVersion: number; toVersion: number };
+
+export type CheckpointOptions = {
+  store: CheckpointStore;
+  /** FetchEventsQuery dto for a missing range. Default: `{ modelName, fromVersion, toVersion }`. */
+  backfillDto?: (range: VersionRange) => unknown;
+  /**
+   * What to do when backfill cannot close a gap:
+   * false (default) — keep the event un-ACKed and retry on redelivery;
+   * true            — accept the hole and continue from the new version.
+   */
+  skipUnfilledGaps?: boolean;
+  /** Called for every detected gap, before backfill. */
+  onGap?: (range: VersionRange) => void;
+};
+
+/** Transport-provided query function used for backfill. */
+export type QueryFn = (name: string, dto?: unknown) => Promise<unknown>;
+
+/**
+ * CheckpointTracker
+ * -----------------------------------------------------------------------------
+ * Enforces contiguous eventVersions per modelName:
+ * - Versions at or below the checkpoint are already processed and skipped.
+ * - The first event of an unknown model becomes its baseline.
+ * - A jump (v > last + 1) pauses the model, fetches the missing versions via
+ *   FetchEventsQuery, runs them through `handle`, then continues with the event.
+ * - `lock()` serializes work per model so concurrent batches cannot interleave. A task
+ *   that outlives its batch timeout gives up the lock, so a hung handler cannot block
+ *   redeliveries of its model for good; its late commits never move a checkpoint back.
+ */
+export class CheckpointTracker {
+  private readonly store: CheckpointStore;
+  private readonly backfillDto: (range: VersionRange) => unknown;
+  private readonly skipUnfilledGaps: boolean;
+  private readonly onGap?: (range: VersionRange) => void;
+  private readonly query: QueryFn;
+
+  private last = new Map<string, number>();
+  private chains = new Map<string, Promise<void>>();
+
+  constructor(
+    opts: CheckpointOptions,
+    query: QueryFn,
+    private readonly logger?: TransportLogger
+  ) {
+    this.store = opts.store;
+    this.backfillDto = opts.backfillDto ?? ((r) => ({ ...r }));
+    this.skipUnfilledGaps = !!opts.skipUnfilledGaps;
+    this.onGap = opts.onGap;
+    this.query = query;
+  }
+
+  /**
+   * Run `fn` after every earlier task of the same model has finished or timed out.
+   * The next task may start after `timeoutMs` even if `fn` is still running.
+   */
+  lock<T>(modelName: string, fn: () => Promise<T>, timeoutMs = Infinity): Promise<T> {
+    const prev = this.chains.get(modelName) ?? Promise.resolve();
+    const run = prev.then(fn);
+    const tail = new Promise<void>((resolve) => {
+      const t = Number.isFinite(timeoutMs)
+        ? setTimeout(
+            () => {
+              this.logger?.warn('model lock released after batch timeout', { modelName, timeoutMs });
+              resolve();
+            },
+            Math.max(1, timeoutMs)
+          )
+        : undefined;
+      const finish = () => {
+        clearTimeout(t);
+        resolve();
+      };
+      run.then(finish, finish);
+    });
+    this.chains.set(modelName, tail);
+    tail.then(() => {
+      if (this.chains.get(modelName) === tail) this.chains.delete(modelName);
+    });
+    return run;
+  }
+
+  /**
+   * Process one event in version order. Resolves false when the event must stay un-ACKed.
+   * `handle` runs the subscribers and resolves false on failure.
+   */
+  async advance(wire: WireEventRecord, handle: (w: WireEventRecord) => Promise<boolean>): Promise<boolean> {
+    const modelName = wire.modelName;
+    const v = wire.eventVersion;
+    if (typeof v !== 'number' || !Number.isFinite(v)) return handle(wire);
+
+    const last = await this.lastVersion(modelName);
+    if (last !== undefined && v <= last) return true; // already processed
+
+    if (last !== undefined && v > last + 1) {
+      const range = { modelName, fromVersion: last + 1, toVersion: v - 1 };
+      this.logger?.info('version gap, backfilling', { ...range });
+      this.onGap?.(range);
+      if (!(await this.backfill(range, handle)) && !this.skipUnfilledGaps) return false;
+    }
+
+    if (!(await handle(wire))) return false;
+    return this.commit(modelName, v);
+  }
+
+  private async backfill(range: VersionRange, handle: (w: WireEventRecord) => Promise<boolean>): Promise<boolean> {
+    let res: unknown;
+    try {
+      res = await this.query(FETCH_EVENTS_QUERY, this.backfillDto(range));
+    } catch (e) {
+      this.logger?.warn('gap backfill query failed', { ...range, error: e });
+      return false;
+    }
+    const list = Array.isArray(res) ? res : Array.isArray((res as any)?.events) ? (res as any).events : [];
+    const records = (list as WireEventRecord[])
+      .filter((r) => r && r.eventVersion >= range.fromVersion && r.eventVersion <= range.toVersion)
+      .sort((a, b) => a.eventVersion - b.eventVersion);
+
+    let expected = range.fromVersion;
+    for (const r of records) {
+      if (r.eventVersion !== expected) break; // hole inside the backfill result
+      const w = { ...r, modelName: r.modelName ?? range.modelName };
+      if (!(await handle(w)) || !(await this.commit(range.modelName, r.eventVersion))) return false;
+      expected++;
+    }
+    return expected > range.toVersion;
+  }
+
+  private async lastVersion(modelName: string): Promise<number | undefined> {
+    if (this.last.has(modelName)) return this.last.get(modelName);
+    const v = await this.store.get(modelName);
+    if (typeof v === 'number') this.last.set(modelName, v);
+    return v ?? undefined;
+  }
+
+  private async commit(modelName: string, v: number): Promise<boolean> {
+    if ((this.last.get(modelName) ?? -Infinity) >= v) return true; // a task that outlived its lock
+    this.last.set(modelName, v);
+    try {
+      await this.store.set(modelName, v);
+      return true;
+    } catch (e) {
+      this.logger?.warn('checkpoint store failed', { modelName, eventVersion: v, error: e });
+      return false; // redelivery is skipped by the cached checkpoint, then ACKed
+    }
+  }
+}
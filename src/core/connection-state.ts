@@ -0,0 +1,106 @@
+/**
+ * - connecting   — first connection attempt in progress
+ * - open         — channel is up, the server has not pinged (or answered a ping) yet
+ * - online       — a ping/pong went through recently (within `onlineTimeoutMs`)
+ * - reconnecting — connection lost, retrying (see `attempt`)
+ * - closed       — closed by the client, or lost without reconnects
+ */
+export type ConnectionState = 'connecting' | 'open' | 'online' | 'reconnecting' | 'closed';
+
+export type ConnectionStateEvent = {
+  state: ConnectionState;
+  previous: ConnectionState | null;
+  /** Reconnect attempt in progress; 0 once a connection is open. */
+  attempt: number;
+  /** Last transport error; cleared when a connection opens. */
+  lastError?: Error;
+  /** Date.now() of the transition. */
+  since: number;
+};
+
+export type ConnectionStateListener = (event: ConnectionStateEvent) => void;
+
+/**
+ * ConnectionStatus
+ * -----------------------------------------------------------------------------
+ * Current connection state of one transport plus its listeners.
+ * Listeners are called synchronously on every state change (not on repeats of the
+ * same state and attempt); a throwing listener does not affect the others.
+ * 'online' expires: without another ping/pong within `onlineTimeoutMs` (default 15_000 ms,
+ * 0 = never) the state falls back to 'open'.
+ */
+export class ConnectionStatus {
+  private current: ConnectionStateEvent;
+  private listeners = new Set<ConnectionStateListener>();
+  private readonly onlineTimeoutMs: number;
+  private staleTimer: any;
+
+  constructor(initial: ConnectionState, opts?: { onlineTimeoutMs?: number }) {
+    this.current = { state: initial, previous: null, attempt: 0, since: Date.now() };
+    this.onlineTimeoutMs = Math.max(0, opts?.onlineTimeoutMs ?? 15_000);
+  }
+
+  get snapshot(): ConnectionStateEvent {
+    return this.current;
+  }
+
+  get state(): ConnectionState {
+    return this.current.state;
+  }
+
+  /** Whether a ping/pong went through within `onlineTimeoutMs`. */
+  get online(): boolean {
+    return this.current.state === 'online';
+  }
+
+  /** A ping or pong went through: 'online', and the expiry starts over. */
+  alive(): void {
+    this.set('online');
+    clearTimeout(this.staleTimer);
+    if (this.onlineTimeoutMs === 0) return;
+    this.staleTimer = setTimeout(() => {
+      if (this.current.state === 'online') this.set('open');
+    }, this.onlineTimeoutMs);
+    this.staleTimer?.unref?.();
+  }
+
+  /** Move to `state`. `error` is kept as `lastError`; `open`/`online` reset `attempt` and `lastError`. */
+  set(state: ConnectionState, opts: { attempt?: number; error?: unknown } = {}): void {
+    if (state !== 'online') clearTimeout(this.staleTimer);
+    const up = state === 'open' || state === 'online';
+    const attempt = up ? 0 : opts.attempt ?? this.current.attempt;
+    if (opts.error !== undefined) this.fail(opts.error);
+    if (state === this.current.state && attempt === this.current.attempt) return;
+
+    this.current = {
+      state,
+      previous: this.current.state,
+      attempt,
+      lastError: up ? undefined : this.current.lastError,
+      since: Date.now(),
+    };
+    /* eslint-disable no-empty */
+    for (const l of [...this.listeners]) {
+      try {
+        l(this.current);
+      } catch {}
+    }
+    /* eslint-enable no-empty */
+  }
+
+  /** Record an error without changing state. */
+  fail(error: unknown): void {
+    const lastError = error instanceof Error ? error : new Error(String(error));
+    this.current = { ...this.current, lastError };
+  }
+
+  on(listener: ConnectionStateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  clear(): void {
+    clearTimeout(this.staleTimer);
+    this.listeners.clear();
+  }
+}
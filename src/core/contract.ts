@@ -0,0 +1,121 @@
+import type { DomainEvent } from './shared';
+import type { Validator } from './validation';
+import type { QueryOptions } from './query-interceptor';
+
+/** Marker of an event payload type, optionally with a runtime validator. */
+export type EventSpec<TPayload = unknown> = {
+  readonly kind: 'event';
+  readonly validator?: Validator<TPayload>;
+  readonly __payload?: TPayload;
+};
+
+/** Marker of a query DTO and result type, optionally with a result validator. */
+export type QuerySpec<TReq = unknown, TRes = unknown> = {
+  readonly kind: 'query';
+  readonly validator?: Validator<TRes>;
+  readonly __dto?: TReq;
+  readonly __result?: TRes;
+};
+
+export type ContractDefinition = {
+  events?: Record<string, EventSpec<any>>;
+  queries?: Record<string, QuerySpec<any, any>>;
+};
+
+export type EventName<C extends ContractDefinition> = Extract<keyof NonNullable<C['events']>, string>;
+export type QueryName<C extends ContractDefinition> = Extract<keyof NonNullable<C['queries']>, string>;
+
+export type EventPayload<C extends ContractDefinition, K extends EventName<C>> = NonNullable<
+  C['events']
+>[K] extends EventSpec<infer P>
+  ? P
+  : never;
+export type QueryDto<C extends ContractDefinition, K extends QueryName<C>> = NonNullable<
+  C['queries']
+>[K] extends QuerySpec<infer D, any>
+  ? D
+  : never;
+export type QueryResult<C extends ContractDefinition, K extends QueryName<C>> = NonNullable<
+  C['queries']
+>[K] extends QuerySpec<any, infer R>
+  ? R
+  : never;
+
+/** DTO may be omitted when the contract declares it as `undefined`/`void`. */
+type QueryArgs<D> = undefined extends D
+  ? [dto?: D, opts?: number | QueryOptions]
+  : [dto: D, opts?: number | QueryOptions];
+
+/** Minimal surface shared by the node and browser Client facades. */
+export type ContractCapableClient = {
+  subscribe(name: string, handler: (evt: any) => unknown | Promise<unknown>): () => void;
+  query(name: string, dto?: any, opts?: any): Promise<any>;
+};
+
+/** `subscribe` / `query` narrowed to the names and shapes of a contract. */
+export type ContractClient<C extends ContractDefinition> = {
+  subscribe<K extends EventName<C>>(
+    eventType: K,
+    handler: (evt: DomainEvent<EventPayload<C, K>>) => unknown | Promise<unknown>
+  ): () => void;
+  query<K extends QueryName<C>>(name: K, ...args: QueryArgs<QueryDto<C, K>>): Promise<QueryResult<C, K>>;
+};
+
+export type BoundClient<C extends ContractDefinition, T extends ContractCapableClient> = Omit<
+  T,
+  'subscribe' | 'query'
+> &
+  ContractClient<C>;
+
+export type Contract<C extends ContractDefinition> = C & {
+  /** Returns the same client instance, typed by this contract. */
+  bind<T extends ContractCapableClient>(client: T): BoundClient<C, T>;
+  /** Validators declared in the contract; pass as `validation` to a Client. */
+  validators: { events: Record<string, Validator>; queries: Record<string, Validator> };
+};
+
+/**
+ * Declare an event payload type: `events: { UserCreated: defineEvent<{ id: string }>() }`.
+ * Pass a schema (`defineEvent(UserCreatedSchema)`) to also validate at runtime.
+ */
+export function defineEvent<TPayload>(validator?: Validator<TPayload>): EventSpec<TPayload> {
+  return { kind: 'event', validator };
+}
+
+/**
+ * Declare a query DTO and result: `queries: { GetUser: defineQuery<{ id: string }, User>() }`.
+ * An optional validator checks the result at runtime.
+ */
+export function defineQuery<TReq, TRes>(validator?: Validator<TRes>): QuerySpec<TReq, TRes> {
+  return { kind: 'query', validator };
+}
+
+/**
+ * defineContract
+ * -----------------------------------------------------------------------------
+ * Compile-time registry of event and query names:
+ *
+ *   const api = defineContract({
+ *     events:  { UserCreated: defineEvent<{ id: string }>() },
+ *     queries: { GetUser: defineQuery<{ id: string }, { id: string; name: string }>() },
+ *   });
+ *   const c = api.bind(new Client({ transport: ... }));
+ *   c.subscribe('UserCreated', (e) => e.payload.id);        // payload inferred
+ *   const user = await c.query('GetUser', { id: '1' });    // dto checked, result inferred
+ *
+ * `bind` does not wrap the client: it is a typed view of the same instance.
+ * Runtime checks come only from validators, via `validation: api.validators` on the Client.
+ */
+export function defineContract<const C extends ContractDefinition>(def: C): Contract<C> {
+  return {
+    ...def,
+    bind: <T extends ContractCapableClient>(client: T) => client as unknown as BoundClient<C, T>,
+    validators: { events: pickValidators(def.events), queries: pickValidators(def.queries) },
+  };
+}
+
+function pickValidators(specs?: Record<string, { validator?: Validator<any> }>): Record<string, Validator> {
+  const out: Record<string, Validator> = {};
+  for (const [name, spec] of Object.entries(specs ?? {})) if (spec.validator) out[name] = spec.validator;
+  return out;
+}
@@ -0,0 +1,55 @@
+/** Returns the credential to use right now, e.g. read from a secrets manager; sync or async. */
+export type CredentialProvider = () => string | undefined | Promise<string | undefined>;
+
+/** A fixed string, or a provider called whenever the credential is needed. */
+export type Credential = string | CredentialProvider;
+
+/**
+ * CredentialSource
+ * -----------------------------------------------------------------------------
+ * One credential option of a transport. A fixed string is returned as is; a provider is
+ * called on every `get()`. The last two distinct values are remembered so that inbound
+ * checks can accept a value that was just rotated away from, and logs can mask both.
+ */
+export class CredentialSource {
+  private last?: string;
+  private prev?: string;
+  /** The fixed string, or a provider that records what it returns; for helpers that take a `Credential`. */
+  readonly credential?: Credential;
+
+  constructor(private readonly source?: Credential) {
+    if (typeof source === 'function') this.credential = () => this.get();
+    else this.credential = this.last = source || undefined;
+  }
+
+  /** Whether a credential is configured at all. */
+  get configured(): boolean {
+    return !!this.source;
+  }
+
+  /** Whether the value comes from a provider, i.e. `get()` is needed to learn it. */
+  get dynamic(): boolean {
+    return typeof this.source === 'function';
+  }
+
+  /** The fixed value, or the last one the provider returned; no provider call. */
+  get value(): string | undefined {
+    return this.last;
+  }
+
+  /** The current value: calls the provider, if any. A throwing provider rejects. */
+  async get(): Promise<string | undefined> {
+    if (typeof this.source !== 'function') return this.last;
+    const value = (await this.source()) || undefined;
+    if (value && value !== this.last) {
+      this.prev = this.last;
+      this.last = value;
+    }
+    return value;
+  }
+
+  /** The last value seen and the one before it (`undefined` when unknown), newest first. */
+  known(): (string | undefined)[] {
+    return [this.last, this.prev];
+  }
+}
@@ -0,0 +1,104 @@
+import type { DomainEvent, WireEventRecord } from './shared';
+import type { TransportLogger } from './logger';
+import { wireFields } from './logger';
+
+export type DeadLetterEntry = {
+  event: DomainEvent;
+  error: unknown;
+  attempts: number;
+  /** Milliseconds since epoch when the event was dead-lettered. */
+  at: number;
+};
+
+/** Pluggable sink for events that kept failing (DB table, queue, file...). */
+export interface DeadLetterStore {
+  put(entry: DeadLetterEntry): void | Promise<void>;
+}
+
+export type DeadLetterOptions = {
+  /** Failed deliveries of the same event before it is dead-lettered and ACKed. Default: 5. */
+  maxAttempts?: number;
+  /** Called once the event reaches `maxAttempts`. Throwing keeps the event un-ACKed. */
+  onDeadLetter?: (event: DomainEvent, error: unknown, attempts: number) => unknown | Promise<unknown>;
+  /** Optional store that receives every dead-lettered event. */
+  store?: DeadLetterStore;
+  /** Upper bound of tracked failure counters (oldest evicted first). Default: 10_000. */
+  maxTracked?: number;
+};
+
+/** Keeps dead-lettered events in memory; handy for tests and diagnostics. */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  readonly entries: DeadLetterEntry[] = [];
+
+  put(entry: DeadLetterEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+/**
+ * DeadLetterPolicy
+ * -----------------------------------------------------------------------------
+ * Counts failed deliveries per event (modelName + eventType + eventVersion + requestId).
+ * Once an event fails `maxAttempts` times it is handed to `onDeadLetter` / `store`
+ * and reported as done, so the stream can move on past a poison event.
+ */
+export class DeadLetterPolicy {
+  private readonly maxAttempts: number;
+  private readonly maxTracked: number;
+  private readonly onDeadLetter?: DeadLetterOptions['onDeadLetter'];
+  private readonly store?: DeadLetterStore;
+
+  private attempts = new Map<string, number>();
+
+  constructor(
+    opts: DeadLetterOptions,
+    private readonly logger?: TransportLogger
+  ) {
+    this.maxAttempts = Math.max(1, opts.maxAttempts ?? 5);
+    this.maxTracked = Math.max(1, opts.maxTracked ?? 10_000);
+    this.onDeadLetter = opts.onDeadLetter;
+    this.store = opts.store;
+  }
+
+  /**
+   * Forget the failure history of an event that finally succeeded.
+   * `scope` separates counters of one event handled by several subscription lanes.
+   */
+  succeeded(wire: WireEventRecord, scope = ''): void {
+    this.attempts.delete(keyOf(wire, scope));
+  }
+
+  /**
+   * Register a failed attempt.
+   * Resolves true when the event was dead-lettered and may be ACKed.
+   */
+  async failed(wire: WireEventRecord, event: DomainEvent, error: unknown, scope = ''): Promise<boolean> {
+    const key = keyOf(wire, scope);
+    const attempts = (this.attempts.get(key) ?? 0) + 1;
+
+    if (attempts < this.maxAttempts) {
+      this.attempts.delete(key); // re-insert to keep eviction order by last failure
+      this.attempts.set(key, attempts);
+      if (this.attempts.size > this.maxTracked) {
+        const oldest = this.attempts.keys().next().value;
+        if (oldest !== undefined) this.attempts.delete(oldest);
+      }
+      return false;
+    }
+
+    try {
+      await this.onDeadLetter?.(event, error, attempts);
+      await this.store?.put({ event, error, attempts, at: Date.now() });
+    } catch (e) {
+      this.logger?.error('dead-letter sink failed, event kept for redelivery', { ...wireFields(wire), error: e });
+      this.attempts.set(key, attempts);
+      return false; // sink failed: keep the event for redelivery
+    }
+    this.attempts.delete(key);
+    return true;
+  }
+}
+
+function keyOf(w: WireEventRecord, scope: string): string {
+  return `${w.modelName}|${w.eventType}|${w.eventVersion}|${w.requestId}|${scope}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Idempotency store used to skip events that were already handled.
+ * Keys come from `dedupKey()`; implementations may be sync or async (Redis, Postgres...).
+ */
+export interface DedupStore {
+  has(key: string): boolean | Promise<boolean>;
+  add(key: string): void | Promise<void>;
+}
+
+/** Dedup key of an event: one aggregate version is handled at most once. */
+export function dedupKey(e: { modelName: string; eventVersion: number }): string {
+  return `${e.modelName}:${e.eventVersion}`;
+}
+
+/**
+ * InMemoryDedupStore
+ * -----------------------------------------------------------------------------
+ * Bounded LRU of handled keys. Survives redeliveries, not process restarts.
+ */
+export class InMemoryDedupStore implements DedupStore {
+  private readonly max: number;
+  private keys = new Set<string>();
+
+  constructor(opts?: { maxEntries?: number }) {
+    this.max = Math.max(1, opts?.maxEntries ?? 10_000);
+  }
+
+  has(key: string): boolean {
+    if (!this.keys.has(key)) return false;
+    // refresh recency
+    this.keys.delete(key);
+    this.keys.add(key);
+    return true;
+  }
+
+  add(key: string): void {
+    this.keys.delete(key);
+    this.keys.add(key);
+    while (this.keys.size > this.max) {
+      const oldest = this.keys.values().next().value;
+      if (oldest === undefined) break;
+      this.keys.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /** Keys from least to most recently used. */
+  entries(): string[] {
+    return [...this.keys];
+  }
+}
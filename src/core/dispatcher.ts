@@ -0,0 +1,370 @@
+import type { OutboxStreamAckPayload, WireEventRecord } from './shared';
+import { createDomainEventFromWire } from './shared';
+import type { DeadLetterOptions } from './dead-letter';
+import { DeadLetterPolicy } from './dead-letter';
+import type { DedupStore } from './dedup';
+import type { CheckpointOptions, QueryFn } from './checkpoint';
+import { CheckpointTracker } from './checkpoint';
+import { dedupKey } from './dedup';
+import type { InboundMiddleware } from './middleware';
+import { runInbound } from './middleware';
+import { TransportMetrics } from './metrics';
+import { TransportTracer } from './tracing';
+import { TransportLogger, wireFields } from './logger';
+import { BatchTimeoutError } from './errors';
+
+export type EventHandler<T = any> = (evt: T) => unknown | Promise<unknown>;
+
+/**
+ * How several handlers of one event are run:
+ * 'sequential' — one after another in registration order; the first failure stops the rest (default).
+ * 'parallel'   — all at once; the event fails if any of them fails.
+ */
+export type HandlerStrategy = 'sequential' | 'parallel';
+
+export type EventDispatcherOptions = {
+  /** Error prefix of the owning transport, e.g. '[ws-client]'. */
+  tag: string;
+  /** Transport kind of the owning transport ('http', 'ws', ...), carried by its errors. */
+  transport?: string;
+  /**
+   * 'per-type'   — events of one subscription key run sequentially, different keys run in parallel (default).
+   * 'sequential' — the whole batch runs in arrival order.
+   */
+  ordering?: 'per-type' | 'sequential';
+  /** Default: 'sequential'. */
+  handlerStrategy?: HandlerStrategy;
+  /** Dead-letter events that keep failing so they stop blocking redelivery. */
+  deadLetter?: DeadLetterOptions;
+  /** Skip (and ACK) events whose `(modelName, eventVersion)` was already handled. */
+  dedup?: DedupStore;
+  /**
+   * Enforce contiguous eventVersions per modelName and backfill gaps via `query`.
+   * Switches lanes to one per modelName, serialized across batches.
+   */
+  checkpoints?: CheckpointOptions;
+  /** Query function of the owning transport (required for `checkpoints`). */
+  query?: QueryFn;
+  /** Batch and handler metrics of the owning transport. */
+  metrics?: TransportMetrics;
+  /** Batch and handler spans of the owning transport. */
+  tracer?: TransportTracer;
+  /** Handler, dead-letter, dedup and checkpoint failures are logged here. */
+  logger?: TransportLogger;
+};
+
+/** Handlers of one subscription key matched by an event ('type:A', 'pattern:User*', 'model:Wallet'). */
+type Route = { key: string; handlers: EventHandler[] };
+
+/**
+ * EventDispatcher
+ * -----------------------------------------------------------------------------
+ * Subscription registry + batch runner shared by every transport.
+ * - Routes WireEventRecords by exact eventType, by glob pattern on eventType
+ *   ('*', 'User*', 'Block?dded') and by modelName (`subscribeModel`).
+ * - Every subscription key is a lane: its events run sequentially, keys run in parallel.
+ *   An event matched by several keys is done once each of its lanes has handled it.
+ * - A key may have several handlers, run per `handlerStrategy`; the event is ACKed only
+ *   when all of them succeeded.
+ * - Inbound middleware (`use`) wraps every handler call and may transform the event or skip the handler.
+ * - Tracks success per event and returns the ACK payload for the batch:
+ *   * Events without a subscriber count as done (no-op types do not block ACK).
+ *   * A failing event stops its lane; later events of that lane stay un-ACKed to keep order.
+ *   * With `deadLetter`, an event that failed `maxAttempts` times is handed off and counted as done.
+ *   * With `dedup`, events already recorded in the store are skipped and counted as done.
+ *   * With `checkpoints`, events run per model in version order; gaps are backfilled first.
+ *   * When `timeoutMs` elapses, only events that already finished are reported.
+ *   * `ok` is true only when every index of the batch is in `okIndices`.
+ *
+ * NOTE: when the timeout fires, unfinished handlers keep running in the background.
+ * Their side-effects may happen although the event is not ACKed and will be re-delivered.
+ * Handlers MUST be idempotent to tolerate this at-least-once delivery guarantee, or the
+ * transport must be given a `dedup` store so redelivered events are skipped.
+ */
+export class EventDispatcher {
+  private readonly tag: string;
+  private readonly transport: string;
+  private readonly ordering: 'per-type' | 'sequential';
+  private readonly handlerStrategy: HandlerStrategy;
+  private readonly deadLetter?: DeadLetterPolicy;
+  private readonly dedup?: DedupStore;
+  private readonly checkpoints?: CheckpointTracker;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  /** Batch span of each event in flight; handler spans are its children. */
+  private readonly batchTrace = new WeakMap<WireEventRecord, string>();
+
+  private subs = new Map<string, Set<EventHandler>>();
+  private patterns = new Map<string, { re: RegExp; set: Set<EventHandler> }>();
+  private models = new Map<string, Set<EventHandler>>();
+  private inbound: InboundMiddleware[] = [];
+
+  constructor(opts: EventDispatcherOptions) {
+    this.tag = opts.tag;
+    this.transport = opts.transport ?? '';
+    this.ordering = opts.ordering ?? 'per-type';
+    this.handlerStrategy = opts.handlerStrategy ?? 'sequential';
+    this.logger = opts.logger ?? new TransportLogger(undefined, '');
+    if (opts.deadLetter) this.deadLetter = new DeadLetterPolicy(opts.deadLetter, this.logger);
+    this.dedup = opts.dedup;
+    this.metrics = opts.metrics ?? new TransportMetrics(undefined, '');
+    this.tracer = opts.tracer ?? new TransportTracer(undefined, '');
+    if (opts.checkpoints) {
+      if (!opts.query) throw new Error(`${this.tag} checkpoints require a query function`);
+      this.checkpoints = new CheckpointTracker(opts.checkpoints, opts.query, this.logger);
+    }
+  }
+
+  // ---- subscriptions --------------------------------------------------------
+  /** Exact eventType, or a glob: `*` matches any run of characters, `?` exactly one. */
+  subscribe<T = any>(eventType: string, handler: EventHandler<T>): () => void {
+    if (!isPattern(eventType)) return this.add(this.subs, eventType, handler);
+
+    let entry = this.patterns.get(eventType);
+    if (!entry) this.patterns.set(eventType, (entry = { re: globToRegExp(eventType), set: new Set() }));
+    const { set } = entry;
+    set.add(handler as EventHandler);
+    return () => {
+      set.delete(handler as EventHandler);
+      if (!set.size && this.patterns.get(eventType)?.set === set) this.patterns.delete(eventType);
+    };
+  }
+
+  /** Every event of one modelName, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: EventHandler<T>): () => void {
+    return this.add(this.models, modelName, handler);
+  }
+
+  /** Add inbound middleware; it applies from the next handler call on. Returns a remover. */
+  use(mw: InboundMiddleware): () => void {
+    this.inbound = [...this.inbound, mw];
+    return () => {
+      this.inbound = this.inbound.filter((m) => m !== mw);
+    };
+  }
+
+  /** Handlers registered under this exact key (eventType or pattern). */
+  count(eventType: string): number {
+    return (isPattern(eventType) ? this.patterns.get(eventType)?.set.size : this.subs.get(eventType)?.size) ?? 0;
+  }
+
+  clear(): void {
+    this.subs.clear();
+    this.patterns.clear();
+    this.models.clear();
+  }
+
+  private add(map: Map<string, Set<EventHandler>>, key: string, handler: EventHandler): () => void {
+    const set = map.get(key) ?? new Set<EventHandler>();
+    set.add(handler);
+    map.set(key, set);
+    return () => {
+      // Unsubscribe only the exact handler reference
+      set.delete(handler);
+      if (!set.size && map.get(key) === set) map.delete(key);
+    };
+  }
+
+  /** Subscription keys matching an event, each with a snapshot of its handlers. */
+  private routes(wire: WireEventRecord): Route[] {
+    const out: Route[] = [];
+    const type = wire.eventType || 'UnknownEvent';
+    const exact = this.subs.get(type);
+    if (exact?.size) out.push({ key: `type:${type}`, handlers: [...exact] });
+    for (const [pattern, { re, set }] of this.patterns) {
+      if (set.size && re.test(type)) out.push({ key: `pattern:${pattern}`, handlers: [...set] });
+    }
+    const model = this.models.get(wire.modelName);
+    if (model?.size) out.push({ key: `model:${wire.modelName}`, handlers: [...model] });
+    return out;
+  }
+
+  // ---- batch processing -----------------------------------------------------
+  /**
+   * Dispatch one outbox batch and resolve with the ACK payload.
+   * Never rejects: handler failures and timeouts are reflected in `okIndices`.
+   * @param traceparent trace context of the sender (message envelope or webhook header); the batch span continues it.
+   */
+  async dispatch(events: WireEventRecord[], timeoutMs?: number, traceparent?: string): Promise<OutboxStreamAckPayload> {
+    const wires = events ?? [];
+    return this.tracer.batch(wires.length, traceparent, (parent) => this.run(wires, timeoutMs, parent));
+  }
+
+  private async run(wires: WireEventRecord[], timeoutMs?: number, parent?: string): Promise<OutboxStreamAckPayload> {
+    const done = new Array<boolean>(wires.length).fill(false);
+    if (parent) for (const w of wires) this.batchTrace.set(w, parent);
+
+    const work =
+      this.checkpoints || this.ordering === 'sequential'
+        ? this.runOrdered(wires, done, timeoutMs)
+        : this.runKeyed(wires, done);
+
+    // Await all lanes (bounded by timeoutMs) and snapshot what finished
+    // (settle, not await: a throwing store must not reject the whole dispatch)
+    const inTime = await settleWithin(work, timeoutMs ?? Infinity);
+
+    const okIndices: number[] = [];
+    for (let i = 0; i < done.length; i++) if (done[i]) okIndices.push(i);
+    this.metrics.batch(wires.length, !inTime);
+    if (!inTime) {
+      const error = new BatchTimeoutError(this.tag, {
+        transport: this.transport,
+        size: wires.length,
+        acked: okIndices.length,
+        timeoutMs: timeoutMs!,
+      });
+      this.logger.warn('batch timed out, ACKing finished events only', { size: error.size, acked: error.acked, error });
+    }
+    return { ok: okIndices.length === wires.length, okIndices };
+  }
+
+  /** 'per-type' ordering: one lane per subscription key. */
+  private async runKeyed(wires: WireEventRecord[], done: boolean[]): Promise<void> {
+    // 1) Build lanes; `pending[i]` counts the lanes event i still has to pass
+    const lanes = new Map<string, { i: number; handlers: EventHandler[] }[]>();
+    const pending = new Array<number>(wires.length).fill(0);
+    for (let i = 0; i < wires.length; i++) {
+      const w = wires[i]!;
+      const routes = this.routes(w);
+      if (!routes.length || (await this.seen(w))) {
+        done[i] = true; // no-op types and already handled events do not block
+        continue;
+      }
+      pending[i] = routes.length;
+      for (const r of routes) {
+        let arr = lanes.get(r.key);
+        if (!arr) lanes.set(r.key, (arr = []));
+        arr.push({ i, handlers: r.handlers });
+      }
+    }
+
+    // 2) One task per lane; events inside a lane run sequentially
+    const tasks: Promise<void>[] = [];
+    for (const [key, items] of lanes) {
+      const run = async () => {
+        for (const { i, handlers } of items) {
+          const wire = wires[i]!;
+          // stop the lane: later events must not overtake the failed one
+          if (!(await this.invoke(wire, handlers, key))) return;
+          if (--pending[i]! === 0) {
+            await this.remember(wire);
+            done[i] = true;
+          }
+        }
+      };
+      tasks.push(run());
+    }
+    await Promise.all(tasks);
+  }
+
+  /** 'sequential' ordering or checkpoints: one lane for the batch, or one per model (locked until `timeoutMs`). */
+  private async runOrdered(wires: WireEventRecord[], done: boolean[], timeoutMs?: number): Promise<void> {
+    const lanes = new Map<string, number[]>();
+    for (let i = 0; i < wires.length; i++) {
+      const w = wires[i]!;
+      // with checkpoints every event advances its model's version, subscribed or not
+      if (!this.checkpoints && !this.routes(w).length) {
+        done[i] = true; // no-op types do not block
+        continue;
+      }
+      const key = this.checkpoints ? w.modelName : '';
+      let arr = lanes.get(key);
+      if (!arr) lanes.set(key, (arr = []));
+      arr.push(i);
+    }
+
+    const tasks: Promise<void>[] = [];
+    for (const [key, idxs] of lanes) {
+      const run = async () => {
+        for (const i of idxs) {
+          const wire = wires[i]!;
+          const ok = this.checkpoints ? await this.checkpoints.advance(wire, this.handle) : await this.handle(wire);
+          if (!ok) return;
+          done[i] = true;
+        }
+      };
+      tasks.push(this.checkpoints ? this.checkpoints.lock(key, run, timeoutMs) : run());
+    }
+    await Promise.all(tasks);
+  }
+
+  /** Run every matching handler of one event. Resolves false when the event must stay un-ACKed. */
+  private handle = async (wire: WireEventRecord): Promise<boolean> => {
+    const handlers = this.routes(wire).flatMap((r) => r.handlers);
+    if (!handlers.length) return true;
+    if (await this.seen(wire)) return true; // already handled on a previous delivery
+    if (!(await this.invoke(wire, handlers))) return false;
+    await this.remember(wire);
+    return true;
+  };
+
+  /** Call `handlers` per strategy; on failure the dead-letter policy decides (counted per `scope`). */
+  private async invoke(wire: WireEventRecord, handlers: EventHandler[], scope?: string): Promise<boolean> {
+    const evt = createDomainEventFromWire(wire);
+    const mws = this.inbound;
+    const call = (h: EventHandler) =>
+      this.tracer.handler(evt.eventType, this.batchTrace.get(wire), (traceparent) =>
+        this.metrics.handler(evt.eventType, () =>
+          Promise.resolve().then(() =>
+            mws.length ? runInbound(mws, evt, { wire, state: {}, traceparent }, h) : h(evt)
+          )
+        )
+      );
+    try {
+      if (this.handlerStrategy === 'parallel') await Promise.all(handlers.map(call));
+      else for (const h of handlers) await call(h);
+    } catch (e) {
+      const deadLettered = !!this.deadLetter && (await this.deadLetter.failed(wire, evt, e, scope));
+      if (deadLettered) this.logger.warn('event dead-lettered', { ...wireFields(wire), error: e });
+      else this.logger.error('handler failed, event left un-ACKed', { ...wireFields(wire), error: e });
+      return deadLettered;
+    }
+    this.deadLetter?.succeeded(wire, scope);
+    return true;
+  }
+
+  // Dedup store failures must not block the stream: fall back to plain at-least-once.
+  private async seen(wire: WireEventRecord): Promise<boolean> {
+    if (!this.dedup) return false;
+    try {
+      return await this.dedup.has(dedupKey(wire));
+    } catch (e) {
+      this.logger.warn('dedup store failed', { ...wireFields(wire), error: e });
+      return false;
+    }
+  }
+
+  private async remember(wire: WireEventRecord): Promise<void> {
+    if (!this.dedup) return;
+    try {
+      await this.dedup.add(dedupKey(wire));
+    } catch (e) {
+      this.logger.warn('dedup store failed', { ...wireFields(wire), error: e });
+    }
+  }
+}
+
+function isPattern(eventType: string): boolean {
+  return eventType.includes('*') || eventType.includes('?');
+}
+
+function globToRegExp(glob: string): RegExp {
+  const src = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${src}$`);
+}
+
+/** Resolve when `p` settles (true) or `ms` elapses (false, if finite), whichever comes first. */
+function settleWithin(p: Promise<unknown>, ms: number): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const t = Number.isFinite(ms) ? setTimeout(() => resolve(false), Math.max(1, ms)) : undefined;
+    const finish = () => {
+      clearTimeout(t);
+      resolve(true);
+    };
+    p.then(finish, finish);
+  });
+}
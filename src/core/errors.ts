@@ -0,0 +1,147 @@
+/** Stable machine-readable codes of `TransportError`; match on these instead of messages. */
+export type TransportErrorCode =
+  | 'TRANSPORT_NOT_CONNECTED'
+  | 'QUERY_TIMEOUT'
+  | 'QUERY_REMOTE'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INVALID_RESPONSE'
+  | 'TOO_MANY_IN_FLIGHT'
+  | 'CREDENTIAL_UNAVAILABLE'
+  | 'BATCH_TIMEOUT';
+
+/**
+ * Where an error happened: the transport kind ('http', 'ws', 'ipc-parent', ...) and the query, if any.
+ * `cause` keeps the underlying error (socket, IPC channel or `fetch` failure) when there is one.
+ */
+export type TransportErrorContext = { transport: string; query?: string; cause?: unknown };
+
+/**
+ * Base class of every error a transport raises on its own.
+ * Messages keep the transport prefix (e.g. '[ws-client] not connected') for humans;
+ * `code`, `transport` and `query` are the stable part.
+ */
+export abstract class TransportError extends Error {
+  abstract readonly code: TransportErrorCode;
+  /** Transport kind, the same label metrics and logs use. */
+  readonly transport: string;
+  /** Query name when the error belongs to a query. */
+  readonly query?: string;
+
+  constructor(message: string, ctx: TransportErrorContext) {
+    super(message);
+    // set by hand: `new Error(message, { cause })` is ES2022 and the ESM build targets ES2020
+    if (ctx.cause !== undefined)
+      Object.defineProperty(this, 'cause', { value: ctx.cause, writable: true, configurable: true });
+    this.transport = ctx.transport;
+    this.query = ctx.query;
+  }
+}
+
+/** The connection is not open, closed while the query was waiting, or failed to carry the request. */
+export class TransportNotConnectedError extends TransportError {
+  readonly code = 'TRANSPORT_NOT_CONNECTED';
+
+  constructor(tag: string, ctx: TransportErrorContext) {
+    super(`${tag} not connected`, ctx);
+    this.name = 'TransportNotConnectedError';
+  }
+}
+
+/** No response within the query timeout. */
+export class QueryTimeoutError extends TransportError {
+  readonly code = 'QUERY_TIMEOUT';
+  readonly timeoutMs?: number;
+
+  constructor(tag: string, ctx: TransportErrorContext & { timeoutMs?: number }) {
+    super(`${tag} query timeout`, ctx);
+    this.name = 'QueryTimeoutError';
+    this.timeoutMs = ctx.timeoutMs;
+  }
+}
+
+/** The server answered with an error: `ok: false` with its `err`, or an HTTP error `status`. */
+export class QueryRemoteError extends TransportError {
+  readonly code = 'QUERY_REMOTE';
+  /** `err` of the query response, or the HTTP response body. */
+  readonly err: unknown;
+  /** HTTP status, for the HTTP transport only. */
+  readonly status?: number;
+
+  constructor(tag: string, ctx: TransportErrorContext & { err: unknown; status?: number }) {
+    const detail = String(ctx.err ?? '');
+    super(
+      ctx.status === undefined
+        ? `${tag} query failed: ${detail || 'unknown error'}`
+        : `${tag} ${ctx.status} ${detail}`.trim(),
+      ctx
+    );
+    this.name = 'QueryRemoteError';
+    this.err = ctx.err;
+    this.status = ctx.status;
+  }
+}
+
+/** The serialized query exceeds the transport's size limit; it was never sent. */
+export class PayloadTooLargeError extends TransportError {
+  readonly code = 'PAYLOAD_TOO_LARGE';
+  readonly bytes: number;
+  readonly maxBytes: number;
+
+  constructor(tag: string, ctx: TransportErrorContext & { bytes: number; maxBytes: number }) {
+    super(`${tag} query payload too large (${ctx.bytes} > ${ctx.maxBytes} bytes)`, ctx);
+    this.name = 'PayloadTooLargeError';
+    this.bytes = ctx.bytes;
+    this.maxBytes = ctx.maxBytes;
+  }
+}
+
+/** The query response is not a `{ ok, data?, err? }` envelope. */
+export class InvalidResponseError extends TransportError {
+  readonly code = 'INVALID_RESPONSE';
+
+  constructor(tag: string, ctx: TransportErrorContext) {
+    super(`${tag} invalid query response`, ctx);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/** `maxInFlightQueries` queries already await a response and `queueQueries` is off; nothing was sent. */
+export class TooManyQueriesInFlightError extends TransportError {
+  readonly code = 'TOO_MANY_IN_FLIGHT';
+  readonly maxInFlight: number;
+
+  constructor(tag: string, ctx: TransportErrorContext & { maxInFlight: number }) {
+    super(`${tag} too many queries in flight`, ctx);
+    this.name = 'TooManyQueriesInFlightError';
+    this.maxInFlight = ctx.maxInFlight;
+  }
+}
+
+/** A credential provider (e.g. for `token`) threw or rejected; its error is the `cause`. Nothing was sent. */
+export class CredentialUnavailableError extends TransportError {
+  readonly code = 'CREDENTIAL_UNAVAILABLE';
+
+  constructor(tag: string, ctx: TransportErrorContext) {
+    super(`${tag} credential unavailable`, ctx);
+    this.name = 'CredentialUnavailableError';
+  }
+}
+
+/**
+ * `processTimeoutMs` elapsed before every event of a batch was handled.
+ * Not thrown: batches never reject; it is logged and only finished events are ACKed.
+ */
+export class BatchTimeoutError extends TransportError {
+  readonly code = 'BATCH_TIMEOUT';
+  readonly size: number;
+  readonly acked: number;
+  readonly timeoutMs: number;
+
+  constructor(tag: string, ctx: TransportErrorContext & { size: number; acked: number; timeoutMs: number }) {
+    super(`${tag} batch timeout after ${ctx.timeoutMs} ms (${ctx.acked}/${ctx.size} events finished)`, ctx);
+    this.name = 'BatchTimeoutError';
+    this.size = ctx.size;
+    this.acked = ctx.acked;
+    this.timeoutMs = ctx.timeoutMs;
+  }
+}
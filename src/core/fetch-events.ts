@@ -0,0 +1,59 @@
+import type { DomainEvent } from './shared';
+import type { VersionRange } from './checkpoint';
+import type { QueryOptions } from './query-interceptor';
+import { FETCH_EVENTS_QUERY } from './checkpoint';
+import { abortError } from './abort';
+
+export type FetchEventsOptions = {
+  modelName: string;
+  /** First version to read. Default: 1. */
+  fromVersion?: number;
+  /** Last version to read (inclusive). Default: everything the server has. */
+  toVersion?: number;
+  /** Versions requested per FetchEventsQuery. Default: 100. */
+  pageSize?: number;
+  /** FetchEventsQuery dto for one page. Default: `{ modelName, fromVersion, toVersion }`. */
+  pageDto?: (range: VersionRange) => unknown;
+  /** Timeout of each page query. */
+  timeoutMs?: number;
+  /** Aborting stops the iteration with AbortError, also while a page is in flight. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Query function of the client facade (interceptors, cache, retries and validation included).
+ * Resolves with decoded records: pages are not decoded again here.
+ */
+export type FetchEventsQueryFn = (name: string, dto: unknown, opts: QueryOptions) => Promise<unknown>;
+
+/**
+ * Page through FetchEventsQuery and yield the events in version order.
+ * Only one page is held at a time; the next page is requested when the current one is consumed.
+ * Iteration ends on an empty page or once `toVersion` is reached.
+ */
+export async function* paginateEvents(
+  query: FetchEventsQueryFn,
+  opts: FetchEventsOptions
+): AsyncGenerator<DomainEvent> {
+  const { modelName, toVersion = Infinity, signal, timeoutMs } = opts;
+  const pageSize = Math.max(1, Math.floor(opts.pageSize ?? 100));
+  const pageDto = opts.pageDto ?? ((r) => ({ ...r }));
+  let from = Math.max(1, opts.fromVersion ?? 1);
+
+  while (from <= toVersion) {
+    if (signal?.aborted) throw abortError('[fetch-events]', signal);
+    const range = { modelName, fromVersion: from, toVersion: Math.min(toVersion, from + pageSize - 1) };
+    const res = await query(FETCH_EVENTS_QUERY, pageDto(range), { timeoutMs, signal });
+    const list = Array.isArray(res) ? res : Array.isArray((res as any)?.events) ? (res as any).events : [];
+    const page = (list as DomainEvent[])
+      .filter((e: DomainEvent) => e && e.eventVersion >= range.fromVersion && e.eventVersion <= toVersion)
+      .sort((a: DomainEvent, b: DomainEvent) => a.eventVersion - b.eventVersion);
+    if (page.length === 0) return;
+
+    for (const evt of page) {
+      if (signal?.aborted) throw abortError('[fetch-events]', signal);
+      yield evt;
+    }
+    from = page[page.length - 1]!.eventVersion + 1;
+  }
+}
@@ -1 +1,20 @@
 export * from './shared';
+export * from './dispatcher';
+export * from './dead-letter';
+export * from './dedup';
+export * from './checkpoint';
+export * from './contract';
+export * from './validation';
+export * from './middleware';
+export * from './query-interceptor';
+export * from './retry';
+export * from './query-cache';
+export * from './abort';
+export * from './fetch-events';
+export * from './connection-state';
+export * from './metrics';
+export * from './tracing';
+export * from './logger';
+export * from './errors';
+export * from './credentials';
+export * from './pong-auth';
@@ -0,0 +1,96 @@
+import type { WireEventRecord } from './shared';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/** `(fields, message)` per level, as pino takes it; `console` fits as well. */
+export interface Logger {
+  debug(fields: LogFields, msg?: string): void;
+  info(fields: LogFields, msg?: string): void;
+  warn(fields: LogFields, msg?: string): void;
+  error(fields: LogFields, msg?: string): void;
+}
+
+/** Field names whose values are never logged (compared case-insensitively, at any depth). */
+export const REDACTED_FIELDS = ['token', 'password', 'pongPassword', 'authorization', 'x-transport-token', 'secret'];
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 5;
+
+/**
+ * TransportLogger
+ * -----------------------------------------------------------------------------
+ * Structured logging of one transport: adds `transport` to every record, turns errors into
+ * `{ name, message, code? }` and redacts secrets — by field name (`REDACTED_FIELDS`) and by value
+ * (the transport's own token and pong password, wherever they appear in a string).
+ * Without a logger every method is a no-op. A throwing logger never affects the transport.
+ */
+export class TransportLogger {
+  /** `secrets` is read on every record, so credentials changed later are still masked. */
+  constructor(
+    private readonly logger: Logger | undefined,
+    private readonly transport: string,
+    private readonly secrets: () => (string | undefined)[] = () => []
+  ) {}
+
+  debug(msg: string, fields: LogFields = {}): void {
+    this.write('debug', msg, fields);
+  }
+  info(msg: string, fields: LogFields = {}): void {
+    this.write('info', msg, fields);
+  }
+  warn(msg: string, fields: LogFields = {}): void {
+    this.write('warn', msg, fields);
+  }
+  error(msg: string, fields: LogFields = {}): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields): void {
+    if (!this.logger) return;
+    /* eslint-disable no-empty */
+    try {
+      const secrets = this.secrets().filter((s): s is string => !!s);
+      this.logger[level](this.redact({ transport: this.transport, ...fields }, 0, secrets) as LogFields, msg);
+    } catch {}
+    /* eslint-enable no-empty */
+  }
+
+  private redact(value: unknown, depth: number, secrets: string[]): unknown {
+    if (typeof value === 'string') return mask(value, secrets);
+    if (value instanceof Error) {
+      const code = (value as { code?: unknown }).code;
+      const out: LogFields = { name: value.name, message: mask(value.message, secrets) };
+      return typeof code === 'string' ? { ...out, code } : out;
+    }
+    if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) return value;
+    if (Array.isArray(value)) return value.map((v) => this.redact(v, depth + 1, secrets));
+    const out: LogFields = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = isRedactedField(k) ? REDACTED : this.redact(v, depth + 1, secrets);
+    }
+    return out;
+  }
+}
+
+function mask(s: string, secrets: string[]): string {
+  let out = s;
+  for (const secret of secrets) out = out.split(secret).join(REDACTED);
+  return out;
+}
+
+function isRedactedField(key: string): boolean {
+  const k = key.toLowerCase();
+  return REDACTED_FIELDS.some((f) => f.toLowerCase() === k);
+}
+
+/** Identity of an event for log records. */
+export function wireFields(wire: WireEventRecord): LogFields {
+  return {
+    eventType: wire.eventType,
+    modelName: wire.modelName,
+    eventVersion: wire.eventVersion,
+    requestId: wire.requestId,
+  };
+}
@@ -0,0 +1,255 @@
+import { AbortError } from './abort';
+import { QueryTimeoutError } from './errors';
+
+export type MetricLabels = Record<string, string>;
+
+/** Receives every measurement. Use `MetricsRegistry`, or forward to StatsD, OpenTelemetry, ... */
+export interface MetricsSink {
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+const SECONDS_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Metrics recorded by the transports. Names follow Prometheus conventions. */
+export const METRICS = {
+  batches: {
+    name: 'easylayer_transport_batches_total',
+    type: 'counter',
+    help: 'Outbox batches received.',
+  },
+  batchSize: {
+    name: 'easylayer_transport_batch_size',
+    type: 'histogram',
+    help: 'Events per outbox batch.',
+    buckets: [1, 5, 10, 25, 50, 100, 250, 500, 1000],
+  },
+  batchTimeouts: {
+    name: 'easylayer_transport_batch_timeouts_total',
+    type: 'counter',
+    help: 'Batches ACKed partially because processTimeoutMs elapsed.',
+  },
+  handlerDuration: {
+    name: 'easylayer_transport_handler_duration_seconds',
+    type: 'histogram',
+    help: 'Duration of one subscription handler call.',
+    buckets: SECONDS_BUCKETS,
+  },
+  handlerErrors: {
+    name: 'easylayer_transport_handler_errors_total',
+    type: 'counter',
+    help: 'Subscription handler calls that threw.',
+  },
+  queries: {
+    name: 'easylayer_transport_queries_total',
+    type: 'counter',
+    help: 'Queries sent, by outcome (ok, error, timeout, aborted).',
+  },
+  queryDuration: {
+    name: 'easylayer_transport_query_duration_seconds',
+    type: 'histogram',
+    help: 'Query round-trip time.',
+    buckets: SECONDS_BUCKETS,
+  },
+  reconnects: {
+    name: 'easylayer_transport_reconnects_total',
+    type: 'counter',
+    help: 'Reconnect attempts.',
+  },
+} as const;
+
+type MetricDefinition = { name: string; type: 'counter' | 'histogram'; help: string; buckets?: readonly number[] };
+
+const DEFINITIONS = new Map<string, MetricDefinition>(Object.values(METRICS).map((m) => [m.name, m]));
+
+/**
+ * TransportMetrics
+ * -----------------------------------------------------------------------------
+ * Records the built-in metrics of one transport into a sink, adding the `transport` label.
+ * Without a sink every method is a no-op. A throwing sink never affects the transport.
+ */
+export class TransportMetrics {
+  constructor(
+    private readonly sink: MetricsSink | undefined,
+    private readonly transport: string
+  ) {}
+
+  batch(size: number, timedOut: boolean): void {
+    this.increment(METRICS.batches.name, {});
+    this.observe(METRICS.batchSize.name, {}, size);
+    if (timedOut) this.increment(METRICS.batchTimeouts.name, {});
+  }
+
+  /** Run one handler call and record its duration and failure. */
+  async handler<T>(eventType: string, run: () => Promise<T>): Promise<T> {
+    if (!this.sink) return run();
+    const started = now();
+    try {
+      return await run();
+    } catch (e) {
+      this.increment(METRICS.handlerErrors.name, { event_type: eventType });
+      throw e;
+    } finally {
+      this.observe(METRICS.handlerDuration.name, { event_type: eventType }, (now() - started) / 1000);
+    }
+  }
+
+  reconnect(): void {
+    this.increment(METRICS.reconnects.name, {});
+  }
+
+  /** Run one query and record its duration and outcome. */
+  async query<T>(name: string, run: () => Promise<T>): Promise<T> {
+    if (!this.sink) return run();
+    const started = now();
+    let outcome = 'ok';
+    try {
+      return await run();
+    } catch (e) {
+      outcome = queryOutcome(e);
+      throw e;
+    } finally {
+      this.increment(METRICS.queries.name, { query: name, outcome });
+      this.observe(METRICS.queryDuration.name, { query: name }, (now() - started) / 1000);
+    }
+  }
+
+  /* eslint-disable no-empty */
+  private increment(name: string, labels: MetricLabels): void {
+    try {
+      this.sink?.increment(name, { transport: this.transport, ...labels }, 1);
+    } catch {}
+  }
+
+  private observe(name: string, labels: MetricLabels, value: number): void {
+    try {
+      this.sink?.observe(name, { transport: this.transport, ...labels }, value);
+    } catch {}
+  }
+  /* eslint-enable no-empty */
+}
+
+function queryOutcome(e: unknown): string {
+  if (e instanceof AbortError) return 'aborted';
+  return e instanceof QueryTimeoutError ? 'timeout' : 'error';
+}
+
+/** Milliseconds from a monotonic clock where available. */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+type CounterSeries = { labels: MetricLabels; value: number };
+type HistogramSeries = {
+  labels: MetricLabels;
+  buckets: readonly number[];
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+export type MetricSnapshot =
+  | { name: string; type: 'counter'; help: string; series: CounterSeries[] }
+  | { name: string; type: 'histogram'; help: string; series: HistogramSeries[] };
+
+/**
+ * MetricsRegistry
+ * -----------------------------------------------------------------------------
+ * In-memory sink keeping counters and cumulative histograms per label set.
+ * Histogram buckets come from `METRICS`; unknown histograms use the seconds buckets.
+ * Render it with `formatPrometheus()`.
+ */
+export class MetricsRegistry implements MetricsSink {
+  private counters = new Map<string, Map<string, CounterSeries>>();
+  private histograms = new Map<string, Map<string, HistogramSeries>>();
+
+  increment(name: string, labels: MetricLabels, value = 1): void {
+    const series = seriesOf(this.counters, name);
+    const key = labelKey(labels);
+    const s = series.get(key);
+    if (s) s.value += value;
+    else series.set(key, { labels: { ...labels }, value });
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const series = seriesOf(this.histograms, name);
+    const key = labelKey(labels);
+    let s = series.get(key);
+    if (!s) {
+      const buckets = DEFINITIONS.get(name)?.buckets ?? SECONDS_BUCKETS;
+      series.set(key, (s = { labels: { ...labels }, buckets, counts: buckets.map(() => 0), sum: 0, count: 0 }));
+    }
+    for (let i = 0; i < s.buckets.length; i++) if (value <= s.buckets[i]!) s.counts[i]!++;
+    s.sum += value;
+    s.count++;
+  }
+
+  snapshot(): MetricSnapshot[] {
+    const help = (name: string) => DEFINITIONS.get(name)?.help ?? name;
+    return [
+      ...[...this.counters].map(([name, s]) => ({
+        name,
+        type: 'counter' as const,
+        help: help(name),
+        series: [...s.values()],
+      })),
+      ...[...this.histograms].map(([name, s]) => ({
+        name,
+        type: 'histogram' as const,
+        help: help(name),
+        series: [...s.values()],
+      })),
+    ];
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+}
+
+function seriesOf<T>(map: Map<string, Map<string, T>>, name: string): Map<string, T> {
+  let s = map.get(name);
+  if (!s) map.set(name, (s = new Map()));
+  return s;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}=${labels[k]}`)
+    .join(',');
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Prometheus text exposition format (version 0.0.4). */
+export function formatPrometheus(registry: MetricsRegistry): string {
+  const lines: string[] = [];
+  for (const m of registry.snapshot()) {
+    lines.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`);
+    if (m.type === 'counter') {
+      for (const s of m.series) lines.push(`${m.name}${formatLabels(s.labels)} ${s.value}`);
+      continue;
+    }
+    for (const s of m.series) {
+      s.buckets.forEach((le, i) => lines.push(`${m.name}_bucket${formatLabels(s.labels, String(le))} ${s.counts[i]}`));
+      lines.push(`${m.name}_bucket${formatLabels(s.labels, '+Inf')} ${s.count}`);
+      lines.push(`${m.name}_sum${formatLabels(s.labels)} ${s.sum}`);
+      lines.push(`${m.name}_count${formatLabels(s.labels)} ${s.count}`);
+    }
+  }
+  return lines.length ? lines.join('\n') + '\n' : '';
+}
+
+function formatLabels(labels: MetricLabels, le?: string): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(labels[k]!)}"`);
+  if (le !== undefined) pairs.push(`le="${le}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabel(v: string): string {
+  return v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,44 @@
+import type { DomainEvent, WireEventRecord } from './shared';
+
+export type InboundContext = {
+  /** Record as received from the wire, before any middleware transformed the event. */
+  readonly wire: WireEventRecord;
+  /** Scratch space shared by the middleware of one handler call (tenant id, timers...). */
+  readonly state: Record<string, unknown>;
+  /** W3C traceparent of the handler span; pass it to `query()` to continue the trace. */
+  readonly traceparent?: string;
+};
+
+/** Continue the chain, optionally with a replaced event. Resolves with the handler's result. */
+export type InboundNext = (event?: DomainEvent) => Promise<unknown>;
+
+/**
+ * Runs around every handler call of a batch:
+ * - call `next()` to continue (or `next(newEvent)` to hand a transformed event downstream);
+ * - return without calling `next` to skip the handler (the event still counts as handled);
+ * - throw to fail the event, exactly like a throwing handler.
+ */
+export type InboundMiddleware = (
+  event: DomainEvent,
+  ctx: InboundContext,
+  next: InboundNext
+) => unknown | Promise<unknown>;
+
+/** Run `handler` through `middleware` in registration order (first registered is outermost). */
+export function runInbound(
+  middleware: readonly InboundMiddleware[],
+  event: DomainEvent,
+  ctx: InboundContext,
+  handler: (evt: DomainEvent) => unknown | Promise<unknown>
+): Promise<unknown> {
+  const step = async (i: number, evt: DomainEvent): Promise<unknown> => {
+    if (i === middleware.length) return handler(evt);
+    let called = false;
+    return middleware[i]!(evt, ctx, (next = evt) => {
+      if (called) return Promise.reject(new Error('[inbound] next() called multiple times'));
+      called = true;
+      return step(i + 1, next);
+    });
+  };
+  return step(0, event);
+}
@@ -0,0 +1,103 @@
+import type { Message } from './shared';
+import type { TransportLogger } from './logger';
+import type { Credential } from './credentials';
+
+/**
+ * How a Pong proves knowledge of `pongPassword`:
+ * 'password'  — the password itself, in clear text (default, for servers without challenges).
+ * 'challenge' — an HMAC-SHA256 over the Ping's nonce and the clientId; the password never leaves the client.
+ */
+export type PongAuthMode = 'password' | 'challenge';
+
+/** Ping payload of a server that challenges its clients. */
+export type PingChallenge = { nonce: string };
+
+/** Pong payload in 'challenge' mode; `mac` is hex HMAC-SHA256(pongPassword, `${nonce}:${clientId}`). */
+export type PongProof = { clientId: string; nonce: string; mac: string };
+
+export type PongPayload = { password: string } | PongProof;
+
+export type PongAuth = {
+  mode?: PongAuthMode;
+  /** A provider is called for every Pong. */
+  password?: Credential;
+  /** Bound into the proof so it cannot be replayed by another client. Default: ''. */
+  clientId?: string;
+};
+
+function subtle(): SubtleCrypto {
+  const s = globalThis.crypto?.subtle;
+  if (!s) throw new Error('[pong] WebCrypto (crypto.subtle) is not available; it requires a secure context');
+  return s;
+}
+
+function hmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return subtle().importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+/** Random challenge for a Ping: 16 bytes as hex. */
+export function createNonce(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex HMAC-SHA256 of `${nonce}:${clientId}` keyed by the pong password (WebCrypto). */
+export async function pongProof(secret: string, nonce: string, clientId: string): Promise<string> {
+  const mac = await subtle().sign(
+    'HMAC',
+    await hmacKey(secret, 'sign'),
+    new TextEncoder().encode(`${nonce}:${clientId}`)
+  );
+  return [...new Uint8Array(mac)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Check a `PongProof` against the nonce that was sent; the comparison is done by WebCrypto in constant time. */
+export async function verifyPongProof(secret: string, nonce: string, proof: Partial<PongProof>): Promise<boolean> {
+  const { mac, clientId = '' } = proof;
+  if (proof.nonce !== nonce || typeof mac !== 'string' || !/^(?:[0-9a-f]{2})+$/i.test(mac)) return false;
+  const bytes = new Uint8Array(mac.match(/../g)!.map((h) => parseInt(h, 16)));
+  return subtle().verify(
+    'HMAC',
+    await hmacKey(secret, 'verify'),
+    bytes,
+    new TextEncoder().encode(`${nonce}:${clientId}`)
+  );
+}
+
+/**
+ * Pong payload answering `ping`. In 'challenge' mode a Ping without a nonce gets no
+ * credentials at all: falling back to the clear-text password would defeat the mode.
+ */
+export async function pongPayload(
+  ping: Message,
+  auth: PongAuth,
+  logger?: TransportLogger
+): Promise<PongPayload | undefined> {
+  const password = typeof auth.password === 'function' ? await auth.password() : auth.password;
+  if (auth.mode !== 'challenge') return password ? { password } : undefined;
+  const nonce = (ping.payload as Partial<PingChallenge> | undefined)?.nonce;
+  if (typeof nonce !== 'string' || !nonce || !password) {
+    logger?.warn('ping without a challenge nonce, pong sent without credentials', { action: ping.action });
+    return undefined;
+  }
+  const clientId = auth.clientId ?? '';
+  return { clientId, nonce, mac: await pongProof(password, nonce, clientId) };
+}
+
+/**
+ * Reply to `ping` through `reply`: synchronously for a fixed password in 'password' mode,
+ * otherwise once the password is provided and the proof computed. A failing provider or
+ * proof (no WebCrypto) is logged, not thrown.
+ */
+export function answerPing(
+  ping: Message,
+  auth: PongAuth,
+  reply: (payload: PongPayload | undefined) => void,
+  logger?: TransportLogger
+): void {
+  const password = auth.password;
+  if (auth.mode !== 'challenge' && typeof password !== 'function') {
+    return reply(password ? { password } : undefined);
+  }
+  pongPayload(ping, auth, logger).then(reply, (e) => logger?.error('pong failed', { error: e }));
+}
@@ -0,0 +1,164 @@
+import type { DomainEvent } from './shared';
+import type { QueryCall, QueryInterceptor, QueryNext } from './query-interceptor';
+import { raceAbort } from './abort';
+import { FETCH_EVENTS_QUERY } from './checkpoint';
+
+/** Drop cached results of `queries` when an event matching `on` arrives. */
+export type CacheInvalidationRule = {
+  /** Event type or glob ('*', 'Wallet*'). */
+  on: string;
+  /** Query names whose entries are dropped. */
+  queries: string[];
+  /**
+   * Whether an entry is affected by the event. Default: entries for the same model —
+   * `dto.modelName === evt.modelName` or `dto.modelIds` includes it; entries whose dto
+   * names no model are always dropped.
+   */
+  match?: (evt: DomainEvent, dto: unknown) => boolean;
+};
+
+export type QueryCacheOptions = {
+  /** Cache only these query names. Default: every query except FetchEventsQuery (history pages). */
+  queries?: string[];
+  /** How long a result is served without asking the server. Default: 1000 ms. */
+  ttlMs?: number;
+  /** After `ttlMs`, serve the stale result this long while refreshing in the background. Default: 0. */
+  staleWhileRevalidateMs?: number;
+  /** Least recently used entries are evicted beyond this size. Default: 500. */
+  maxEntries?: number;
+  invalidate?: CacheInvalidationRule[];
+};
+
+type Entry = { name: string; dto: unknown; value: unknown; freshUntil: number; staleUntil: number };
+type Flight = { name: string; dto: unknown; valid: boolean; promise: Promise<unknown> };
+
+/**
+ * QueryCache
+ * -----------------------------------------------------------------------------
+ * Query interceptor keyed on `name` + a stable serialization of `dto` (and `headers`, if any):
+ * - Fresh hits never reach the transport; concurrent misses share one request.
+ * - Stale hits (within `staleWhileRevalidateMs`) return at once and refresh in the background.
+ * - `watch()` subscribes the invalidation rules so entries are dropped as events stream in;
+ *   a request in flight when its entry is invalidated is not stored.
+ * Cached values are shared between callers and must be treated as read-only.
+ */
+export class QueryCache {
+  private readonly queries?: Set<string>;
+  private readonly ttlMs: number;
+  private readonly swrMs: number;
+  private readonly maxEntries: number;
+  private readonly rules: CacheInvalidationRule[];
+
+  private entries = new Map<string, Entry>();
+  private inflight = new Map<string, Flight>();
+
+  constructor(opts: QueryCacheOptions = {}) {
+    if (opts.queries) this.queries = new Set(opts.queries);
+    this.ttlMs = Math.max(0, opts.ttlMs ?? 1000);
+    this.swrMs = Math.max(0, opts.staleWhileRevalidateMs ?? 0);
+    this.maxEntries = Math.max(1, opts.maxEntries ?? 500);
+    this.rules = opts.invalidate ?? [];
+  }
+
+  readonly interceptor: QueryInterceptor = async (call, next) => {
+    if (this.queries ? !this.queries.has(call.name) : call.name === FETCH_EVENTS_QUERY) return next(call);
+    const key = cacheKey(call.name, call.dto, call.headers);
+    const hit = this.entries.get(key);
+    const now = Date.now();
+    if (hit && now < hit.staleUntil) {
+      this.entries.delete(key); // re-insert to keep LRU order
+      this.entries.set(key, hit);
+      if (now >= hit.freshUntil) this.load(key, { ...call, signal: undefined }, next).catch(() => {}); // keep serving stale on failure
+      return hit.value;
+    }
+    if (hit) this.entries.delete(key);
+    // the shared request must not die with one caller's signal; each caller still stops waiting on abort
+    return raceAbort(this.load(key, { ...call, signal: undefined }, next), call.signal);
+  };
+
+  /** Register the invalidation rules through the transport's `subscribe`. */
+  watch(subscribe: (eventType: string, handler: (evt: DomainEvent) => void) => unknown): void {
+    for (const rule of this.rules) subscribe(rule.on, (evt) => this.apply(rule, evt));
+  }
+
+  /** Drop every entry, or only those of one query name. */
+  invalidate(name?: string): void {
+    this.drop((n) => name === undefined || n === name);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private load(key: string, call: QueryCall, next: QueryNext): Promise<unknown> {
+    const running = this.inflight.get(key);
+    if (running) return running.promise;
+
+    const flight: Flight = { name: call.name, dto: call.dto, valid: true, promise: Promise.resolve() };
+    flight.promise = next(call)
+      .then((value) => {
+        if (flight.valid) this.store(key, call, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === flight) this.inflight.delete(key);
+      });
+    this.inflight.set(key, flight);
+    return flight.promise;
+  }
+
+  private store(key: string, call: QueryCall, value: unknown): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      name: call.name,
+      dto: call.dto,
+      value,
+      freshUntil: now + this.ttlMs,
+      staleUntil: now + this.ttlMs + this.swrMs,
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private apply(rule: CacheInvalidationRule, evt: DomainEvent): void {
+    const match = rule.match ?? sameModel;
+    this.drop((name, dto) => rule.queries.includes(name) && match(evt, dto));
+  }
+
+  private drop(pred: (name: string, dto: unknown) => boolean): void {
+    for (const [key, e] of this.entries) if (pred(e.name, e.dto)) this.entries.delete(key);
+    for (const [key, f] of this.inflight) {
+      if (!pred(f.name, f.dto)) continue;
+      f.valid = false;
+      this.inflight.delete(key); // the next call must not join a request that started before the event
+    }
+  }
+}
+
+function sameModel(evt: DomainEvent, dto: unknown): boolean {
+  const d = dto as { modelName?: unknown; modelIds?: unknown } | undefined;
+  if (typeof d?.modelName === 'string') return d.modelName === evt.modelName;
+  if (Array.isArray(d?.modelIds)) return d.modelIds.includes(evt.modelName);
+  return true;
+}
+
+/** `name` + JSON of `dto` with object keys sorted, so `{a,b}` and `{b,a}` share an entry. */
+export function cacheKey(name: string, dto: unknown, headers?: Record<string, string>): string {
+  const key = `${name}\u0000${stableStringify(dto)}`;
+  return headers && Object.keys(headers).length ? `${key}\u0000${stableStringify(headers)}` : key;
+}
+
+function stableStringify(v: unknown): string {
+  if (v === undefined) return '';
+  if (v === null || typeof v !== 'object') return JSON.stringify(v) ?? '';
+  if (Array.isArray(v)) return `[${v.map((x) => (x === undefined ? 'null' : stableStringify(x))).join(',')}]`;
+  const obj = v as Record<string, unknown>;
+  const keys = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+}
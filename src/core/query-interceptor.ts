@@ -0,0 +1,89 @@
+import type { RetryOptions } from './retry';
+
+/** Per-call options of `Client.query`. A bare number is shorthand for `{ timeoutMs }`. */
+export type QueryOptions = {
+  /** Overall deadline, shared by all retry attempts. */
+  timeoutMs?: number;
+  /** Aborting rejects the query with AbortError. */
+  signal?: AbortSignal;
+  /** W3C traceparent of the caller's span, e.g. `ctx.traceparent` inside a handler. */
+  traceparent?: string;
+  /** Merged over the client-level `retry` option. */
+  retry?: RetryOptions;
+};
+
+/**
+ * One outbound query as seen by interceptors.
+ * `{ name, dto }`, `traceparent` and `headers` go over the wire; `meta` stays local.
+ */
+export type QueryCall = {
+  name: string;
+  dto?: unknown;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  traceparent?: string;
+  /**
+   * Transport-level metadata (auth header, tenant id...): HTTP request headers, or the `headers`
+   * field of the WS/IPC/Electron/SharedWorker envelope. Replace the object rather than mutating it.
+   */
+  headers?: Record<string, string>;
+  /** Effective retry policy; interceptors may change it (e.g. mark a query name idempotent). */
+  retry?: RetryOptions;
+  /** Scratch space shared by the interceptors of one call; never sent. */
+  readonly meta: Record<string, unknown>;
+};
+
+/** Continue the chain with a (possibly rewritten) call. Resolves with the decoded result. */
+export type QueryNext = (call: QueryCall) => Promise<unknown>;
+
+/**
+ * Runs around every `query()`:
+ * - rewrite the call before `next(call)`;
+ * - transform the result `next` resolves with;
+ * - catch the rejection of `next` to map or recover from errors.
+ */
+export type QueryInterceptor = (call: QueryCall, next: QueryNext) => unknown | Promise<unknown>;
+
+/** Run `send` through `interceptors` in order (first is outermost). */
+export function runQueryChain(
+  interceptors: readonly QueryInterceptor[],
+  call: QueryCall,
+  send: (call: QueryCall) => Promise<unknown>
+): Promise<unknown> {
+  const step = async (i: number, c: QueryCall): Promise<unknown> =>
+    i === interceptors.length ? send(c) : interceptors[i]!(c, (next) => step(i + 1, next));
+  return step(0, call);
+}
+
+/** Queries whose result is a list of wire event records with JSON-string payloads. */
+const EVENT_LIST_QUERIES = new Set(['GetModelsQuery', 'FetchEventsQuery']);
+
+/**
+ * Built-in response decoder: parses the string `payload` of every item returned by
+ * GetModelsQuery / FetchEventsQuery. Other queries pass through untouched.
+ */
+export const decodeEventPayloads: QueryInterceptor = async (call, next) => {
+  const data = await next(call);
+  return EVENT_LIST_QUERIES.has(call.name) ? decodeEventList(data) : data;
+};
+
+/** Decode a list of wire event records, bare or as `{ events }`; anything else is returned as is. */
+export function decodeEventList(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(decodeEventPayload);
+  const events = (data as { events?: unknown } | null)?.events;
+  return Array.isArray(events) ? { ...(data as object), events: events.map(decodeEventPayload) } : data;
+}
+
+/** Parse the JSON-string `payload` of one wire event record; anything else is returned as is. */
+export function decodeEventPayload(item: any) {
+  if (!item || typeof item !== 'object' || typeof item.payload !== 'string') return item;
+  return { ...item, payload: safeJsonParse(item.payload) };
+}
+
+function safeJsonParse(s: string) {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return s;
+  }
+}
@@ -0,0 +1,82 @@
+import { delay, nextBackoff } from './shared';
+import { AbortError, abortError } from './abort';
+import { QueryRemoteError, TransportError } from './errors';
+
+export type RetryOptions = {
+  /**
+   * Must be true for any retry to happen: a query that reached the server may have
+   * been executed even if the reply was lost.
+   */
+  idempotent?: boolean;
+  /** Attempts including the first one. Default: 3 (when `idempotent`). */
+  maxAttempts?: number;
+  /** First backoff delay. Default: 100 ms. */
+  initialDelayMs?: number;
+  /** Upper bound of a single backoff delay. Default: 2000 ms. */
+  maxDelayMs?: number;
+  /** Backoff growth factor (see `nextBackoff`). Default: 2. */
+  factor?: number;
+  /** Relative jitter 0..1 (see `nextBackoff`). Default: 0.2. */
+  jitter?: number;
+  /** Which errors are worth another attempt. Default: `isRetryableQueryError`. */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+};
+
+/**
+ * Default classification: timeouts, lost connections and HTTP 5xx are transient;
+ * remote query errors, 4xx, invalid responses and payload limits are not.
+ * Transport errors are classified by `code`; other errors by their network code or message.
+ */
+export function isRetryableQueryError(error: unknown): boolean {
+  if (error instanceof AbortError) return false;
+  if (error instanceof QueryRemoteError) return (error.status ?? 0) >= 500;
+  if (error instanceof TransportError)
+    return error.code === 'QUERY_TIMEOUT' || error.code === 'TRANSPORT_NOT_CONNECTED';
+  const e = error as any;
+  const code = String(e?.code ?? e?.cause?.code ?? '');
+  if (/^(ECONNREFUSED|ECONNRESET|EPIPE|ETIMEDOUT|ENOTFOUND|EAI_AGAIN)$/.test(code)) return true;
+  const msg = String(e?.message ?? '');
+  return /timeout|not connected|fetch failed|\] 5\d\d\b/i.test(msg);
+}
+
+/**
+ * Call `attempt` until it resolves, the error is not retryable, attempts run out
+ * or the overall `timeoutMs` deadline would be crossed by the next backoff.
+ * Each attempt receives the time left until the deadline (the full `timeoutMs` first).
+ * An aborted `signal` stops the backoff and rejects with AbortError.
+ */
+export async function withRetry<T>(
+  attempt: (timeoutMs: number | undefined) => Promise<T>,
+  timeoutMs: number | undefined,
+  opts?: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxAttempts = opts?.idempotent ? Math.max(1, opts.maxAttempts ?? 3) : 1;
+  if (maxAttempts === 1) return attempt(timeoutMs);
+
+  const retryOn = opts?.retryOn ?? isRetryableQueryError;
+  const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+  const backoff = { wait: Math.max(1, opts?.initialDelayMs ?? 100) };
+
+  for (let n = 1; ; n++) {
+    const left = n === 1 || timeoutMs === undefined ? timeoutMs : Math.max(1, deadline - Date.now());
+    try {
+      return await attempt(left);
+    } catch (e) {
+      if (n >= maxAttempts || signal?.aborted || !retryOn(e, n)) throw e;
+      const sleep = nextBackoff(backoff, {
+        factor: opts?.factor ?? 2,
+        max: opts?.maxDelayMs ?? 2000,
+        jitter: opts?.jitter,
+      });
+      if (Date.now() + sleep >= deadline) throw e; // no time left for another attempt
+      await delay(sleep, signal);
+      if (signal?.aborted) throw abortError('[query]', signal);
+    }
+  }
+}
+
+/** Per-call options over client defaults; undefined when neither is set. */
+export function mergeRetry(base?: RetryOptions, override?: RetryOptions): RetryOptions | undefined {
+  return base || override ? { ...base, ...override } : undefined;
+}
@@ -11,6 +11,8 @@ export const Actions = {
   OutboxStreamAck: 'outbox.stream.ack',
   QueryRequest: 'query.request',
   QueryResponse: 'query.response',
+  /** Client → server notice that a pending query was aborted (best effort, no reply). */
+  QueryCancel: 'query.cancel',
 } as const;
 export type ActionsKey = (typeof Actions)[keyof typeof Actions];
 
@@ -21,6 +23,10 @@ export interface Message<T = unknown> {
   correlationId?: string;
   clientId?: string;
   timestamp?: number;
+  /** W3C trace context of the sending span. */
+  traceparent?: string;
+  /** Transport-level metadata of a query (auth, tenant...), set by query interceptors. */
+  headers?: Record<string, string>;
 }
 
 export type WireEventRecord = {
@@ -44,14 +50,14 @@ export type OutboxStreamAckPayload = { ok: boolean; okIndices?: number[] };
 export type QueryRequestPayload = { name: string; dto?: unknown };
 export type QueryResponsePayload = { ok: boolean; name?: string; data?: any; err?: string };
 
-export type DomainEvent = {
+export type DomainEvent<TPayload = any> = {
   modelName: string;
   eventType: string;
   eventVersion: number;
   requestId: string;
   blockHeight: number | null;
   timestamp: number;
-  payload: any;
+  payload: TPayload;
 };
 
 /* eslint-disable no-empty */
@@ -123,8 +129,18 @@ export function uuid(): string {
   });
 }
 
-export function delay(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
+/** Sleep `ms`; resolves early (without throwing) when `signal` aborts. */
+export function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((r) => {
+    if (signal?.aborted) return r();
+    const done = () => {
+      clearTimeout(t);
+      signal?.removeEventListener('abort', done);
+      r();
+    };
+    const t = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 /**
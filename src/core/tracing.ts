@@ -0,0 +1,103 @@
+/** Identity of a span; the same shape as OpenTelemetry's `SpanContext`. */
+export type SpanContext = { traceId: string; spanId: string; traceFlags: number };
+
+export type SpanKind = 'client' | 'consumer' | 'internal';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** The part of the OpenTelemetry `Span` API the transports use; OpenTelemetry spans satisfy it. */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+export type StartSpanOptions = {
+  kind: SpanKind;
+  attributes?: SpanAttributes;
+  /** Remote or local parent; absent for a new trace. */
+  parent?: SpanContext;
+};
+
+/** Creates the transport spans. Wrap an OpenTelemetry tracer, or any other tracing backend. */
+export interface Tracer {
+  startSpan(name: string, options: StartSpanOptions): Span;
+}
+
+/** `SpanStatusCode.ERROR` in OpenTelemetry. */
+export const SPAN_STATUS_ERROR = 2;
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** W3C `traceparent` header value of a span context. */
+export function formatTraceparent(ctx: SpanContext): string {
+  return `00-${ctx.traceId}-${ctx.spanId}-${(ctx.traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/** Parse a W3C `traceparent` value; undefined when missing or malformed (all-zero ids are invalid). */
+export function parseTraceparent(value: string | undefined | null): SpanContext | undefined {
+  const m = TRACEPARENT.exec(String(value ?? '').trim());
+  if (!m || m[1] === 'ff' || /^0+$/.test(m[2]!) || /^0+$/.test(m[3]!)) return undefined;
+  return { traceId: m[2]!, spanId: m[3]!, traceFlags: parseInt(m[4]!, 16) };
+}
+
+/**
+ * TransportTracer
+ * -----------------------------------------------------------------------------
+ * Wraps queries, batch dispatch and handler calls of one transport in spans.
+ * `run` receives the traceparent to propagate: the new span's, or, without a tracer
+ * (the no-op default), the incoming one unchanged so traces still pass through.
+ * A tracer that throws from `startSpan` never affects the transport.
+ */
+export class TransportTracer {
+  constructor(
+    private readonly tracer: Tracer | undefined,
+    private readonly transport: string
+  ) {}
+
+  /** Outbound query; the traceparent goes into the request envelope or headers. */
+  query<T>(name: string, parent: string | undefined, run: (traceparent?: string) => Promise<T>): Promise<T> {
+    return this.span(`query ${name}`, 'client', { 'easylayer.query': name }, parent, run);
+  }
+
+  /** One outbox batch, continuing the sender's trace. */
+  batch<T>(size: number, parent: string | undefined, run: (traceparent?: string) => Promise<T>): Promise<T> {
+    return this.span('dispatch batch', 'consumer', { 'easylayer.batch_size': size }, parent, run);
+  }
+
+  /** One subscription handler call, as a child of its batch. */
+  handler<T>(eventType: string, parent: string | undefined, run: (traceparent?: string) => Promise<T>): Promise<T> {
+    return this.span(`handle ${eventType}`, 'internal', { 'easylayer.event_type': eventType }, parent, run);
+  }
+
+  private async span<T>(
+    name: string,
+    kind: SpanKind,
+    attributes: SpanAttributes,
+    parent: string | undefined,
+    run: (traceparent?: string) => Promise<T>
+  ): Promise<T> {
+    if (!this.tracer) return run(parent);
+    let span: Span;
+    try {
+      span = this.tracer.startSpan(name, {
+        kind,
+        attributes: { 'easylayer.transport': this.transport, ...attributes },
+        parent: parseTraceparent(parent),
+      });
+    } catch {
+      return run(parent);
+    }
+    try {
+      return await run(formatTraceparent(span.spanContext()));
+    } catch (e) {
+      span.recordException(e instanceof Error ? e : String(e));
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: String((e as any)?.message ?? e) });
+      throw e;
+    } finally {
+      span.end();
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { DomainEvent } from './shared';
+
+/**
+ * Anything with `safeParse` or `parse` (Zod, Valibot wrappers, hand-written guards).
+ * `safeParse` is preferred when both exist.
+ */
+export type Validator<T = unknown> =
+  | { safeParse(input: unknown): { success: true; data: T } | { success: false; error: unknown } }
+  | { parse(input: unknown): T };
+
+export class ValidationError extends Error {
+  /** Event type or query name whose payload failed validation. */
+  readonly subject: string;
+  readonly target: 'event' | 'query';
+  /** Raw error reported by the validator (e.g. ZodError). */
+  readonly issues: unknown;
+
+  constructor(target: 'event' | 'query', subject: string, issues: unknown) {
+    super(`[validation] invalid ${target} payload for "${subject}": ${describe(issues)}`);
+    this.name = 'ValidationError';
+    this.target = target;
+    this.subject = subject;
+    this.issues = issues;
+  }
+}
+
+export type InvalidEventPolicy =
+  /** Throw from the handler: the event is not ACKed (and counts towards dead-lettering). */
+  | 'reject'
+  /** Do not call the handler; the event is ACKed. */
+  | 'skip'
+  /** Report, then skip and ACK. If the callback throws, the event is rejected. */
+  | ((evt: DomainEvent, error: ValidationError) => unknown | Promise<unknown>);
+
+export type ValidationOptions = {
+  /** Validators of event payloads, keyed by eventType. */
+  events?: Record<string, Validator>;
+  /** Validators of query results, keyed by query name. */
+  queries?: Record<string, Validator>;
+  /** Default: 'reject'. */
+  onInvalidEvent?: InvalidEventPolicy;
+};
+
+/**
+ * PayloadValidation
+ * -----------------------------------------------------------------------------
+ * Used by the Client facades:
+ * - `wrap()` validates `evt.payload` before the user handler and passes it a copy with the parsed value.
+ * - `result()` validates a query result and throws ValidationError when it does not match.
+ */
+export class PayloadValidation {
+  private readonly events: Record<string, Validator>;
+  private readonly queries: Record<string, Validator>;
+  private readonly onInvalidEvent: InvalidEventPolicy;
+
+  constructor(opts: ValidationOptions) {
+    this.events = opts.events ?? {};
+    this.queries = opts.queries ?? {};
+    this.onInvalidEvent = opts.onInvalidEvent ?? 'reject';
+  }
+
+  /**
+   * `eventType` may be a glob ('*', 'User*'): the validator is then picked per event
+   * from `evt.eventType`, so wildcard and model subscribers see parsed payloads too.
+   */
+  wrap<T>(eventType: string, handler: (evt: T) => unknown | Promise<unknown>): (evt: T) => unknown | Promise<unknown> {
+    const fixed = this.events[eventType];
+    const dynamic = !fixed && /[*?]/.test(eventType) && Object.keys(this.events).length > 0;
+    if (!fixed && !dynamic) return handler;
+
+    return async (evt: any) => {
+      const type: string = fixed ? eventType : evt?.eventType;
+      const v = fixed ?? this.events[type];
+      if (!v) return handler(evt);
+      const r = runValidator(v, evt?.payload);
+      // a copy: the event object is shared by every handler of the batch
+      if (r.ok) return handler({ ...evt, payload: r.value });
+      const err = new ValidationError('event', type, r.error);
+      if (this.onInvalidEvent === 'reject') throw err;
+      if (typeof this.onInvalidEvent === 'function') await this.onInvalidEvent(evt, err);
+      return undefined;
+    };
+  }
+
+  result<T>(name: string, data: T): T {
+    const v = this.queries[name];
+    if (!v) return data;
+    const r = runValidator(v, data);
+    if (!r.ok) throw new ValidationError('query', name, r.error);
+    return r.value as T;
+  }
+}
+
+/** Run any supported validator without throwing. */
+export function runValidator<T>(
+  v: Validator<T>,
+  input: unknown
+): { ok: true; value: T } | { ok: false; error: unknown } {
+  if ('safeParse' in v && typeof v.safeParse === 'function') {
+    const r = v.safeParse(input);
+    return r.success ? { ok: true, value: r.data } : { ok: false, error: r.error };
+  }
+  try {
+    return { ok: true, value: (v as { parse(input: unknown): T }).parse(input) };
+  } catch (e) {
+    return { ok: false, error: e };
+  }
+}
+
+function describe(issues: unknown): string {
+  if (issues instanceof Error) return issues.message;
+  try {
+    return JSON.stringify(issues);
+  } catch {
+    return String(issues);
+  }
+}
@@ -1,4 +1,5 @@
 import { Client } from '../client';
+import { ValidationError } from '../../core';
 
 // Mock uuid so ws.query gets a stable requestId
 jest.mock('../../core', () => ({
@@ -124,7 +125,7 @@ describe('Client (unit)', () => {
     const res = await c.query('SomeQuery', { a: 1 });
 
     expect(httpQuery).toHaveBeenCalledTimes(1);
-    expect(httpQuery).toHaveBeenCalledWith('SomeQuery', { a: 1 }, expect.any(Number));
+    expect(httpQuery).toHaveBeenCalledWith('SomeQuery', { a: 1 }, expect.objectContaining({ timeoutMs: expect.any(Number) }));
     expect(res).toEqual({ ok: true, via: 'http' });
   });
 
@@ -140,6 +141,95 @@ describe('Client (unit)', () => {
     expect(handler).toBe(httpNodeHandler);
   });
 
+  it('useQuery: interceptors rewrite the call, see decoded results and map errors', async () => {
+    httpQuery.mockResolvedValueOnce([{ eventType: 'A', payload: '{"x":1}' }]);
+    httpQuery.mockRejectedValueOnce(new Error('[client-http] 500'));
+    const c = new Client({
+      transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } },
+    });
+    const seen: any[] = [];
+    c.useQuery(async (call, next) => {
+      try {
+        const res = await next({ ...call, dto: { ...(call.dto as object), tenant: 't1' } });
+        seen.push(res);
+        return res;
+      } catch (e: any) {
+        throw new Error(`mapped: ${e.message}`);
+      }
+    });
+
+    await expect(c.query('FetchEventsQuery', { modelName: 'M' })).resolves.toEqual([{ eventType: 'A', payload: { x: 1 } }]);
+    expect(httpQuery).toHaveBeenCalledWith('FetchEventsQuery', { modelName: 'M', tenant: 't1' }, { timeoutMs: 5000, signal: undefined });
+    expect(seen).toEqual([[{ eventType: 'A', payload: { x: 1 } }]]);
+    await expect(c.query('Other')).rejects.toThrow('mapped: [client-http] 500');
+  });
+
+  it('useQuery: headers added by an interceptor are passed to the transport', async () => {
+    httpQuery.mockResolvedValueOnce({ ok: true });
+    const c = new Client({
+      transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } },
+    });
+    c.useQuery((call, next) => next({ ...call, headers: { ...call.headers, authorization: 'Bearer t1', 'x-tenant': 'acme' } }));
+
+    await c.query('SomeQuery', { a: 1 });
+    expect(httpQuery).toHaveBeenCalledWith(
+      'SomeQuery',
+      { a: 1 },
+      expect.objectContaining({ headers: { authorization: 'Bearer t1', 'x-tenant': 'acme' } })
+    );
+  });
+
+  it('validation: invalid query result throws ValidationError', async () => {
+    httpQuery.mockResolvedValueOnce({ id: 'not-a-number' });
+    const isNum = { parse: (v: any) => { if (typeof v?.id !== 'number') throw new Error('id must be a number'); return v; } };
+
+    const c = new Client({
+      transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } },
+      validation: { queries: { GetThing: isNum } },
+    });
+
+    await expect(c.query('GetThing', {})).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('validation: invalid event is skipped with onInvalidEvent "skip", parsed payload reaches the handler', async () => {
+    const schema = {
+      safeParse: (v: any) =>
+        typeof v?.n === 'string' ? { success: true as const, data: { n: Number(v.n) } } : { success: false as const, error: 'bad' },
+    };
+    const c = new Client({
+      transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } },
+      validation: { events: { Counted: schema }, onInvalidEvent: 'skip' },
+    });
+    const seen: any[] = [];
+    c.subscribe('Counted', (e: any) => seen.push(e.payload));
+    const wrapped = httpSubscribe.mock.calls[0][1];
+
+    await wrapped({ eventType: 'Counted', payload: { n: '7' } });
+    await expect(wrapped({ eventType: 'Counted', payload: { n: 7 } })).resolves.toBeUndefined();
+    expect(seen).toEqual([{ n: 7 }]);
+  });
+
+  it('validation: several validated handlers of one type each parse the original payload', async () => {
+    const schema = {
+      safeParse: (v: any) =>
+        typeof v?.n === 'string' ? { success: true as const, data: { n: Number(v.n) } } : { success: false as const, error: 'bad' },
+    };
+    const c = new Client({
+      transport: { type: 'http', inbound: { webhookUrl: 'http://x/events' }, query: { baseUrl: 'http://app' } },
+      validation: { events: { Counted: schema } },
+    });
+    const seen: any[] = [];
+    c.subscribe('Counted', (e: any) => seen.push(e.payload));
+    c.subscribe('Counted', (e: any) => seen.push(e.payload));
+    const [first, second] = httpSubscribe.mock.calls.map((call: any[]) => call[1]);
+
+    const evt = { eventType: 'Counted', payload: { n: '7' } };
+    await first(evt);
+    await second(evt);
+    expect(seen).toEqual([{ n: 7 }, { n: 7 }]);
+    expect(evt.payload).toEqual({ n: '7' });
+  });
+
   it('close() calls underlying close() of the active transport', async () => {
     const cHttp = new Client({
       transport: {
@@ -0,0 +1,33 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileDedupStore } from '../file-dedup-store';
+
+describe('FileDedupStore', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dedup-'));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists keys across instances', () => {
+    const path = join(dir, 'keys.log');
+    const a = new FileDedupStore({ path });
+    a.add('M:1');
+    a.add('M:2');
+
+    const b = new FileDedupStore({ path });
+    expect(b.has('M:1')).toBe(true);
+    expect(b.has('M:2')).toBe(true);
+    expect(b.has('M:3')).toBe(false);
+  });
+
+  it('compacts the file to the live LRU keys', () => {
+    const path = join(dir, 'keys.log');
+    const s = new FileDedupStore({ path, maxEntries: 2 });
+    for (let v = 1; v <= 5; v++) s.add(`M:${v}`);
+    expect(readFileSync(path, 'utf8').trim().split('\n')).toEqual(['M:4', 'M:5']);
+  });
+});
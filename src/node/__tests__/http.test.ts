@@ -1,6 +1,9 @@
 import { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
 import { HttpClient } from '../http';
-import { Actions } from '../../core';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhook } from '../webhook-auth';
+import { Actions, CredentialUnavailableError, MetricsRegistry, TransportNotConnectedError } from '../../core';
 
 function makeReq(body: any, headers: Record<string, string> = {}) {
   const req = new (class extends IncomingMessage { constructor() { super(null as any); } })() as IncomingMessage;
@@ -65,12 +68,37 @@ describe('HttpClient (unit)', () => {
     expect(resEnd).toHaveBeenCalled();
   });
 
-  it('processBatchWithTimeout rejects if handler never resolves', async () => {
+  it('processBatchWithTimeout leaves a never-resolving handler out of okIndices', async () => {
     const client = makeClient();
     client.subscribe('Slow', () => new Promise(() => {}));
     await expect(
       client['processBatchWithTimeout']({ events: [{ eventType: 'Slow', payload: {} }] } as any),
-    ).rejects.toThrow(/timeout/);
+    ).resolves.toEqual({ ok: false, okIndices: [] });
+  });
+
+  it('partial ACK: failed type is excluded, later events of that type are held back', async () => {
+    const client = makeClient();
+    client.subscribe('Good', () => {});
+    client.subscribe('Bad', (evt: any) => {
+      if (evt.payload.id === 1) throw new Error('boom');
+    });
+
+    const resEnd = jest.fn();
+    const res = { writeHead: jest.fn(), end: resEnd } as unknown as ServerResponse;
+    const payload = {
+      action: Actions.OutboxStreamBatch,
+      payload: { events: [
+        { eventType: 'Good', payload: { id: 0 } },
+        { eventType: 'Bad', payload: { id: 1 } },
+        { eventType: 'Good', payload: { id: 2 } },
+        { eventType: 'Bad', payload: { id: 3 } },
+        { eventType: 'Unknown', payload: { id: 4 } },
+      ]},
+    };
+    await client.nodeHttpHandler(makeReq(payload, { 'x-transport-token': 't' }), res);
+
+    const ack = JSON.parse(resEnd.mock.calls[0][0].toString());
+    expect(ack.payload).toEqual({ ok: false, okIndices: [0, 2, 4] });
   });
 
   it('ping returns Pong and password', async () => {
@@ -90,4 +118,220 @@ describe('HttpClient (unit)', () => {
     expect(pong.action).toBe(Actions.Pong);
     expect(pong.payload.password).toBe('pw');
   });
+
+  it('token and pong password providers: rotated per query and request, previous token still accepted', async () => {
+    let token = 't1';
+    const client = new HttpClient(
+      { webhookUrl: 'http://localhost/events', pingUrl: 'http://localhost/ping', token: async () => token, pongPassword: () => `pw-${token}` },
+      { baseUrl: 'http://localhost:3000' },
+    );
+    const fetchMock = jest
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response(JSON.stringify({ ok: true, data: 1 })));
+    const ping = async (headers: Record<string, string>) => {
+      const req = new (class extends IncomingMessage { constructor() { super(null as any); } })() as IncomingMessage;
+      req.method = 'POST';
+      req.url = '/ping';
+      req.headers = headers;
+      const res = { writeHead: jest.fn(), end: jest.fn() } as unknown as ServerResponse;
+      await client.nodeHttpHandler(req, res);
+      const body = (res.end as jest.Mock).mock.calls[0][0].toString();
+      return { status: (res.writeHead as jest.Mock).mock.calls[0][0], body };
+    };
+    try {
+      await client.query('Q', {});
+      token = 't2';
+      await client.query('Q', {});
+      expect(fetchMock.mock.calls.map(([, init]) => (init?.headers as any)['x-transport-token'])).toEqual(['t1', 't2']);
+
+      const pong = await ping({ 'x-transport-token': 't2' });
+      expect(pong.status).toBe(200);
+      expect(JSON.parse(pong.body).payload.password).toBe('pw-t2');
+      expect((await ping({ 'x-transport-token': 't1' })).status).toBe(200);
+      token = 't3';
+      expect((await ping({ 'x-transport-token': 't2' })).status).toBe(200);
+      expect((await ping({ 'x-transport-token': 't1' })).status).toBe(401);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('query: headers go out as request headers; the transport\'s own headers win', async () => {
+    const client = makeClient();
+    const fetchMock = jest
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true, data: 1 })));
+    try {
+      await client.query('Q', {}, { headers: { authorization: 'Bearer t1', 'x-transport-token': 'forged' } });
+      expect(fetchMock.mock.calls[0]![1]!.headers).toEqual({
+        authorization: 'Bearer t1',
+        'Content-Type': 'application/json',
+        'x-transport-token': 't',
+      });
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('query: network failures reject as not connected, a non-JSON body as invalid response', async () => {
+    const client = makeClient();
+    const refused = new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockRejectedValueOnce(refused);
+    try {
+      const err = await client.query('Q', {}).catch((e) => e);
+      expect(err).toBeInstanceOf(TransportNotConnectedError);
+      expect(err).toMatchObject({ code: 'TRANSPORT_NOT_CONNECTED', transport: 'http', query: 'Q', cause: refused });
+
+      fetchMock.mockResolvedValueOnce(new Response('<html>'));
+      await expect(client.query('Q', {})).rejects.toMatchObject({ code: 'INVALID_RESPONSE', cause: expect.objectContaining({ name: 'SyntaxError' }) });
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('query: a hung token provider is bounded by the timeout and the signal, a failing one is typed', async () => {
+    let provider: () => Promise<string> = () => new Promise<string>(() => {});
+    const client = new HttpClient({ webhookUrl: 'http://localhost/events', token: () => provider() }, { baseUrl: 'http://localhost:3000' });
+    const fetchMock = jest.spyOn(globalThis, 'fetch');
+    try {
+      await expect(client.query('Q', {}, 20)).rejects.toMatchObject({ code: 'QUERY_TIMEOUT', timeoutMs: 20 });
+
+      const ac = new AbortController();
+      const pending = client.query('Q', {}, { timeoutMs: 5_000, signal: ac.signal });
+      ac.abort('user left');
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError', reason: 'user left' });
+
+      const vaultDown = new Error('vault down');
+      provider = () => Promise.reject(vaultDown);
+      const err = await client.query('Q', {}).catch((e) => e);
+      expect(err).toBeInstanceOf(CredentialUnavailableError);
+      expect(err).toMatchObject({ code: 'CREDENTIAL_UNAVAILABLE', transport: 'http', query: 'Q', cause: vaultDown });
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it('query rejects with AbortError and aborts the fetch when the signal fires', async () => {
+    const client = makeClient();
+    let fetchSignal: AbortSignal | undefined;
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => {
+      fetchSignal = init?.signal ?? undefined;
+      return new Promise((_resolve, reject) => fetchSignal!.addEventListener('abort', () => reject(new Error('aborted'))));
+    });
+    try {
+      const ac = new AbortController();
+      const pending = client.query('SomeQuery', {}, { timeoutMs: 5_000, signal: ac.signal });
+      ac.abort('user left');
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError', reason: 'user left' });
+      expect(fetchSignal?.aborted).toBe(true);
+
+      await expect(client.query('SomeQuery', {}, { signal: ac.signal })).rejects.toThrow('[client-http] query aborted');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+  it('serves metrics in Prometheus format on metricsPath behind the token', async () => {
+    const metrics = new MetricsRegistry();
+    const client = new HttpClient(
+      { webhookUrl: 'http://localhost/events', token: 't', metrics, metricsPath: '/metrics' },
+      { baseUrl: 'http://localhost:3000' },
+    );
+    client.subscribe('A', () => {});
+    await client.dispatchBatch({ events: [{ eventType: 'A', payload: {} }] } as any);
+
+    const scrape = async (headers: Record<string, string>) => {
+      const req = new (class extends IncomingMessage { constructor() { super(null as any); } })() as IncomingMessage;
+      req.method = 'GET';
+      req.url = '/metrics';
+      req.headers = headers;
+      const res = { writeHead: jest.fn(), end: jest.fn() } as unknown as ServerResponse;
+      await client.nodeHttpHandler(req, res);
+      return res;
+    };
+
+    expect((await scrape({})).writeHead).toHaveBeenCalledWith(401, expect.any(Object));
+    const res = await scrape({ 'x-transport-token': 't' });
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': expect.stringMatching(/^text\/plain; version=0.0.4/) }));
+    expect(String((res.end as jest.Mock).mock.calls[0][0])).toContain('easylayer_transport_batches_total{transport="http"} 1');
+
+    expect(() => new HttpClient({ webhookUrl: 'http://localhost/events', metricsPath: '/metrics' }, { baseUrl: 'http://x' })).toThrow(
+      /MetricsRegistry/,
+    );
+  });
+
+  it('signature mode: accepts signed requests once, rejects forged, stale and replayed ones', async () => {
+    const client = new HttpClient(
+      { webhookUrl: 'http://localhost/events', signature: { secret: 's3cret', toleranceMs: 60_000 }, processTimeoutMs: 30 },
+      { baseUrl: 'http://localhost:3000' },
+    );
+    const batch = { action: Actions.OutboxStreamBatch, requestId: 'b1', payload: { events: [] } };
+    const send = async (body: any, headers: Record<string, string>) => {
+      const res = { writeHead: jest.fn(), end: jest.fn() } as unknown as ServerResponse;
+      await client.nodeHttpHandler(makeReq(body, headers), res);
+      return [(res.writeHead as jest.Mock).mock.calls[0][0], String((res.end as jest.Mock).mock.calls[0][0])];
+    };
+    const signed = (body: any, ts = Date.now()) => ({
+      [TIMESTAMP_HEADER]: String(ts),
+      [SIGNATURE_HEADER]: signWebhook('s3cret', ts, JSON.stringify(body)),
+    });
+
+    const headers = signed(batch);
+    expect((await send(batch, headers))[0]).toBe(200);
+    expect(await send(batch, headers)).toEqual([401, 'replayed request']);
+    expect(await send({ ...batch, requestId: 'b2' }, headers)).toEqual([401, 'invalid signature']);
+    expect(await send(batch, signed(batch, Date.now() - 120_000))).toEqual([401, 'stale timestamp']);
+    expect(await send(batch, {})).toEqual([401, 'missing signature']);
+    // a redelivery is signed again with a new timestamp
+    expect((await send(batch, signed(batch, Date.now() + 1)))[0]).toBe(200);
+  });
+
+  it('signature mode on expressRouter(): accepts a signed request once, rejects forged and replayed ones', async () => {
+    const client = new HttpClient(
+      { webhookUrl: 'http://localhost/events', signature: { secret: 's3cret', toleranceMs: 60_000 }, processTimeoutMs: 30 },
+      { baseUrl: 'http://localhost:3000' },
+    );
+    const app = express();
+    app.use(client.expressRouter());
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise((r) => server.once('listening', r));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+    const send = async (body: string, headers: Record<string, string>) => {
+      const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+      return [res.status, await res.text()];
+    };
+    // signed over the exact bytes, including spacing the JSON parser would drop
+    const body = JSON.stringify({ action: Actions.OutboxStreamBatch, requestId: 'b1', payload: { events: [] } }, null, 1);
+    const ts = Date.now();
+    const headers = { [TIMESTAMP_HEADER]: String(ts), [SIGNATURE_HEADER]: signWebhook('s3cret', ts, body) };
+
+    try {
+      expect((await send(body, headers))[0]).toBe(200);
+      expect(await send(body, headers)).toEqual([401, 'replayed request']);
+      expect(await send(body.replace('b1', 'b2'), headers)).toEqual([401, 'invalid signature']);
+    } finally {
+      await new Promise((r) => server.close(r));
+    }
+  });
+
+  it('allowedIps: rejects requests from other addresses with 403', async () => {
+    const client = new HttpClient(
+      { webhookUrl: 'http://localhost/events', allowedIps: ['10.0.0.0/8', '::1'], processTimeoutMs: 30 },
+      { baseUrl: 'http://localhost:3000' },
+    );
+    const from = async (remoteAddress: string) => {
+      const req = makeReq({ action: Actions.OutboxStreamBatch, payload: { events: [] } });
+      Object.defineProperty(req, 'socket', { value: { remoteAddress } });
+      const res = { writeHead: jest.fn(), end: jest.fn() } as unknown as ServerResponse;
+      await client.nodeHttpHandler(req, res);
+      return (res.writeHead as jest.Mock).mock.calls[0][0];
+    };
+
+    expect(await from('10.1.2.3')).toBe(200);
+    expect(await from('::ffff:10.1.2.3')).toBe(200);
+    expect(await from('::1')).toBe(200);
+    expect(await from('192.168.0.1')).toBe(403);
+    expect(() => new HttpClient({ webhookUrl: 'http://x/e', allowedIps: ['nope'] }, { baseUrl: 'http://x' })).toThrow(/allowedIps/);
+  });
 });
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'node:events';
+import type { ChildProcess } from 'node:child_process';
+import { Actions, TransportNotConnectedError } from '../../core';
+import type { Message } from '../../core';
+import { IpcParentClient } from '../ipc-parent';
+import { IpcChildClient } from '../ipc-child';
+import { ElectronIpcRendererClient } from '../electron-ipc-renderer';
+
+type QueryClient = {
+  query(name: string, dto?: unknown, opts?: number): Promise<unknown>;
+  close(): Promise<void>;
+};
+
+/** One transport wired to a fake channel: `sent` records requests, `reply` answers, `fail` breaks sending. */
+type Fixture = {
+  client: QueryClient;
+  sent: any[];
+  reply(msg: Message): void;
+  fail(err: Error | undefined): void;
+  restore?(): void;
+};
+
+// Replace properties of `process` (the IPC channel of a forked child); returns the undo.
+function stubProcess(props: Record<string, unknown>): () => void {
+  const saved = Object.keys(props).map((k) => [k, Object.getOwnPropertyDescriptor(process, k)] as const);
+  for (const [k, value] of Object.entries(props)) Object.defineProperty(process, k, { value, configurable: true, writable: true });
+  return () => {
+    for (const [k, d] of saved) {
+      if (d) Object.defineProperty(process, k, d);
+      else delete (process as any)[k];
+    }
+  };
+}
+
+// Forked child stand-in; `async` reports the failure through the send callback instead of throwing.
+class FakeChild extends EventEmitter {
+  channel = {};
+  connected = true;
+  sent: any[] = [];
+  error?: Error;
+  constructor(private readonly async = false) {
+    super();
+  }
+  send(msg: unknown, cb?: (err: Error | null) => void) {
+    if (this.error && !this.async) throw this.error;
+    this.sent.push(msg);
+    setImmediate(() => cb?.(this.error ?? null));
+    return true;
+  }
+}
+
+function ipcParent(async: boolean): Fixture {
+  // jest may run this file in a forked worker; the client refuses to start inside a child
+  const restore = stubProcess({ channel: undefined });
+  const child = new FakeChild(async);
+  const client = new IpcParentClient({ child: child as unknown as ChildProcess });
+  return {
+    client,
+    sent: child.sent,
+    reply: (msg) => child.emit('message', msg),
+    fail: (err) => (child.error = err),
+    restore,
+  };
+}
+
+function ipcChild(): Fixture {
+  const sent: any[] = [];
+  let error: Error | undefined;
+  const send = (msg: unknown, cb?: (err: Error | null) => void) => {
+    if (error) throw error;
+    sent.push(msg);
+    setImmediate(() => cb?.(null));
+    return true;
+  };
+  const restore = stubProcess({ channel: {}, connected: true, send });
+  return {
+    client: new IpcChildClient(),
+    sent,
+    reply: (msg) => process.emit('message' as any, msg as any),
+    fail: (err) => (error = err),
+    restore,
+  };
+}
+
+function electronRenderer(): Fixture {
+  const ipc = Object.assign(new EventEmitter(), {
+    sent: [] as any[],
+    error: undefined as Error | undefined,
+    send(_channel: string, msg: unknown) {
+      if (ipc.error) throw ipc.error;
+      ipc.sent.push(msg);
+    },
+  });
+  return {
+    client: new ElectronIpcRendererClient({ ipcRenderer: ipc as any }),
+    sent: ipc.sent,
+    reply: (msg) => ipc.emit('transport:message', {}, msg),
+    fail: (err) => (ipc.error = err),
+  };
+}
+
+describe.each([
+  ['ipc-parent', 'ipc-parent', () => ipcParent(false)],
+  ['ipc-parent, failing in the send callback', 'ipc-parent', () => ipcParent(true)],
+  ['ipc-child', 'ipc-child', ipcChild],
+  ['electron-ipc-renderer', 'electron-ipc-renderer', electronRenderer],
+] as const)('%s query', (_label, transport, make) => {
+  let f: Fixture;
+  beforeEach(() => (f = make()));
+  afterEach(async () => {
+    await f.client.close();
+    f.restore?.();
+  });
+
+  it('round-trips, and a failed send rejects as not connected with the cause', async () => {
+    const pending = f.client.query('GetThing', { id: 1 });
+    const req = f.sent.pop();
+    expect(req).toMatchObject({ action: Actions.QueryRequest, payload: { name: 'GetThing', dto: { id: 1 } } });
+    f.reply({ action: Actions.QueryResponse, correlationId: req.correlationId, requestId: req.requestId, payload: { ok: true, data: 7 } });
+    await expect(pending).resolves.toBe(7);
+
+    const cause = Object.assign(new Error('Channel closed'), { code: 'ERR_IPC_CHANNEL_CLOSED' });
+    f.fail(cause);
+    const err = await f.client.query('GetThing', {}, 1000).catch((e) => e);
+    expect(err).toBeInstanceOf(TransportNotConnectedError);
+    expect(err).toMatchObject({ code: 'TRANSPORT_NOT_CONNECTED', transport, query: 'GetThing', cause });
+  });
+});
@@ -1,8 +1,9 @@
 import { EventEmitter } from 'node:events';
 import type WebSocket from 'ws';
-import { Actions } from '../../core';
+import { Actions, TransportNotConnectedError, pongProof } from '../../core';
 import type { Message, OutboxStreamBatchPayload, WireEventRecord } from '../../core';
 import { WsClient } from '../ws';
+import type { WsClientOptions } from '../ws';
 
 // Minimal fake WebSocket (Node 'ws'-like) for unit testing without network.
 class FakeSocket extends EventEmitter {
@@ -31,10 +32,19 @@ class FakeSocket extends EventEmitter {
   errorNow(err: any) {
     this.emit('error', err instanceof Error ? err : new Error(String(err)));
   }
+  terminate() {
+    this.closed = true;
+    this.emit('close', 1006, '');
+  }
+  ping() {
+    this.pings++;
+  }
+  pings = 0;
 }
 
 function makeClientWithFakeSocket(hooks?: {
   factory?: () => FakeSocket;
+  options?: Partial<WsClientOptions>;
 }) {
   const sock = new FakeSocket();
   const factory = hooks?.factory ?? (() => sock);
@@ -42,24 +52,25 @@ function makeClientWithFakeSocket(hooks?: {
     url: 'ws://fake',
     processTimeoutMs: 30,
     socketFactory: factory as unknown as () => WebSocket,
+    ...hooks?.options,
   });
   return { client, sock };
 }
 
 describe('WsClient', () => {
-  it('subscribe/unsubscribe & duplicate guard', async () => {
+  it('subscribe/unsubscribe with several handlers per type', async () => {
     const { client } = makeClientWithFakeSocket();
-    const fn = jest.fn();
-    const off = client.subscribe('E1', fn);
+    const off1 = client.subscribe('E1', jest.fn());
+    const off2 = client.subscribe('E1', jest.fn());
+    expect(client.getSubscriptionCount('E1')).toBe(2);
+    off1();
     expect(client.getSubscriptionCount('E1')).toBe(1);
-    expect(() => client.subscribe('E1', fn)).toThrow(/duplicate/i);
-    off();
+    off2();
     expect(client.getSubscriptionCount('E1')).toBe(0);
   });
 
   it('Ping → client sends Pong with password', async () => {
-    const { client, sock } = makeClientWithFakeSocket();
-    (client as any).pongPassword = 'pw';
+    const { client, sock } = makeClientWithFakeSocket({ options: { pongPassword: 'pw' } });
     const p = client.connect();
     sock.openNow();
     await p;
@@ -73,6 +84,161 @@ describe('WsClient', () => {
     expect(obj.payload?.password).toBe('pw');
   });
 
+  it('challenge Ping → client answers with an HMAC proof instead of the password', async () => {
+    const sock = new FakeSocket();
+    const client = new WsClient({
+      url: 'ws://fake',
+      pongPassword: 'pw',
+      pongAuth: 'challenge',
+      clientId: 'c1',
+      socketFactory: (() => sock) as unknown as () => WebSocket,
+    });
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    sock.emitMessage({ action: Actions.Ping, timestamp: Date.now(), payload: { nonce: 'n1' } });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const obj = JSON.parse(sock.sent.pop()!);
+    expect(obj.action).toBe(Actions.Pong);
+    expect(obj.payload).toEqual({ clientId: 'c1', nonce: 'n1', mac: await pongProof('pw', 'n1', 'c1') });
+    expect(obj.payload.password).toBeUndefined();
+  });
+
+  it('query headers are sent in the envelope', async () => {
+    const { client, sock } = makeClientWithFakeSocket();
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    const pending = client.query('GetThing', {}, { headers: { 'x-tenant': 'acme' } });
+    const req = JSON.parse(sock.sent[0]!);
+    expect(req).toMatchObject({ action: Actions.QueryRequest, headers: { 'x-tenant': 'acme' }, payload: { name: 'GetThing' } });
+    sock.emitMessage({ action: Actions.QueryResponse, correlationId: req.correlationId, payload: { ok: true, data: 1 } });
+    await expect(pending).resolves.toBe(1);
+    await client.close();
+  });
+
+  it('a failed socket send rejects the query as not connected with the cause', async () => {
+    const { client, sock } = makeClientWithFakeSocket();
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    const gone = new Error('socket gone');
+    sock.send = (_data: string, cb?: (err?: Error) => void) => cb?.(gone);
+    const err = await client.query('GetThing').catch((e) => e);
+    expect(err).toBeInstanceOf(TransportNotConnectedError);
+    expect(err).toMatchObject({ code: 'TRANSPORT_NOT_CONNECTED', transport: 'ws', query: 'GetThing', cause: gone });
+    await client.close();
+  });
+
+  it('state: connecting → open → online → reconnecting → closed', async () => {
+    const socks: FakeSocket[] = [];
+    const { client } = makeClientWithFakeSocket({
+      factory: () => {
+        const s = new FakeSocket();
+        socks.push(s);
+        return s;
+      },
+    });
+    const states: string[] = [];
+    client.on('state', (e) => states.push(e.attempt ? `${e.state}#${e.attempt}` : e.state));
+
+    const p = client.connect();
+    socks[0]!.openNow();
+    await p;
+    socks[0]!.emitMessage({ action: Actions.Ping, timestamp: Date.now() });
+    socks[0]!.emitMessage({ action: Actions.Ping, timestamp: Date.now() });
+
+    socks[0]!.errorNow('boom');
+    expect(client.state).toMatchObject({ state: 'reconnecting', attempt: 1, lastError: { message: 'boom' } });
+    socks[1]!.openNow();
+    await new Promise((r) => setImmediate(r));
+
+    await client.close();
+    expect(states).toEqual(['connecting', 'open', 'online', 'reconnecting#1', 'open', 'closed']);
+    expect(client.state.previous).toBe('open');
+  });
+
+  it("'online' falls back to 'open' when pings stop", async () => {
+    const { client, sock } = makeClientWithFakeSocket({ options: { onlineTimeoutMs: 30 } });
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    sock.emitMessage({ action: Actions.Ping, timestamp: Date.now() });
+    expect(client.state.state).toBe('online');
+    await new Promise((r) => setTimeout(r, 20));
+    sock.emitMessage({ action: Actions.Ping, timestamp: Date.now() });
+    await new Promise((r) => setTimeout(r, 20));
+    expect(client.state.state).toBe('online');
+
+    await new Promise((r) => setTimeout(r, 40));
+    expect(client.state).toMatchObject({ state: 'open', previous: 'online' });
+    await client.close();
+  });
+
+  it('token provider is asked again on every reconnect; subscriptions survive', async () => {
+    const socks: FakeSocket[] = [];
+    const tokens = ['t1', 't2'];
+    const token = jest.fn(async () => tokens.shift());
+    const { client } = makeClientWithFakeSocket({
+      factory: () => {
+        const s = new FakeSocket();
+        socks.push(s);
+        return s;
+      },
+      options: { token },
+    });
+    client.subscribe('E1', jest.fn());
+
+    const p = client.connect();
+    await new Promise((r) => setImmediate(r));
+    socks[0]!.openNow();
+    await p;
+    expect(token).toHaveBeenCalledTimes(1);
+
+    socks[0]!.errorNow('token expired');
+    await new Promise((r) => setImmediate(r));
+    socks[1]!.openNow();
+    await new Promise((r) => setImmediate(r));
+    expect(token).toHaveBeenCalledTimes(2);
+    expect(client.state.state).toBe('open');
+    expect(client.getSubscriptionCount('E1')).toBe(1);
+    await client.close();
+  });
+
+  it('heartbeat watchdog terminates a silent socket and reconnects', async () => {
+    const socks: FakeSocket[] = [];
+    const client = new WsClient({
+      url: 'ws://fake',
+      heartbeatTimeoutMs: 60,
+      keepaliveIntervalMs: 10,
+      socketFactory: (() => {
+        const s = new FakeSocket();
+        socks.push(s);
+        return s;
+      }) as unknown as () => WebSocket,
+    });
+    const p = client.connect();
+    socks[0]!.openNow();
+    await p;
+
+    await new Promise((r) => setTimeout(r, 30));
+    socks[0]!.emitMessage({ action: Actions.Ping, timestamp: Date.now() }); // any frame resets the watchdog
+    await new Promise((r) => setTimeout(r, 30));
+    expect(socks[0]!.closed).toBe(false);
+    expect(socks[0]!.pings).toBeGreaterThan(0);
+
+    await new Promise((r) => setTimeout(r, 70));
+    expect(socks[0]!.closed).toBe(true);
+    expect(client.state).toMatchObject({ state: 'reconnecting', lastError: { message: expect.stringMatching(/no frame/) } });
+    expect(socks.length).toBe(2);
+    await client.close();
+  });
+
   it('OutboxStreamBatch: per-type sequential, cross-type parallel; ACK on success', async () => {
     const { client, sock } = makeClientWithFakeSocket();
     const p = client.connect();
@@ -116,7 +282,7 @@ describe('WsClient', () => {
     expect(ack.payload.okIndices.length).toBe(wires.length);
   });
 
-  it('OutboxStreamBatch: timeout → NO ACK', async () => {
+  it('OutboxStreamBatch: timeout → ACK lists only finished events', async () => {
     const { client, sock } = makeClientWithFakeSocket();
     (client as any).processTimeoutMs = 5;
     const p = client.connect();
@@ -126,38 +292,167 @@ describe('WsClient', () => {
     client.subscribe('SLOW', async () => {
       await new Promise((r) => setTimeout(r, 20));
     });
+    client.subscribe('FAST', () => {});
 
     const batch: Message<OutboxStreamBatchPayload> = {
       action: Actions.OutboxStreamBatch,
       timestamp: Date.now(),
-      payload: { events: [{ eventType: 'SLOW', payload: {} } as any] },
+      payload: { events: [{ eventType: 'SLOW', payload: {} } as any, { eventType: 'FAST', payload: {} } as any] },
     };
     sock.emitMessage(batch);
 
     await new Promise((r) => setTimeout(r, 30));
-    const ackRaw = sock.sent.find((s) => JSON.parse(s).action === Actions.OutboxStreamAck);
-    expect(ackRaw).toBeUndefined();
+    const acks = sock.sent.filter((s) => JSON.parse(s).action === Actions.OutboxStreamAck);
+    expect(acks.length).toBe(1);
+    expect(JSON.parse(acks[0]!).payload).toEqual({ ok: false, okIndices: [1] });
   });
 
-  it('query: single-flight and response handling', async () => {
+  it('query: parallel queries are matched by correlationId', async () => {
     const { client, sock } = makeClientWithFakeSocket();
     const p = client.connect();
     sock.openNow();
     await p;
 
-    const wait = client.query<any>('GetThing', { id: 1 });
+    const first = client.query<any>('GetThing', { id: 1 });
+    const second = client.query<any>('GetThing', { id: 2 });
+    const [req1, req2] = sock.sent.map((s) => JSON.parse(s));
+    expect(req1.correlationId).toBeDefined();
+    expect(req1.correlationId).not.toBe(req2.correlationId);
 
-    await expect(client.query('Second', {})).rejects.toThrow(/in flight/i);
+    const respond = (correlationId: string | undefined, data: any) =>
+      sock.emitMessage({
+        action: Actions.QueryResponse,
+        correlationId,
+        timestamp: Date.now(),
+        payload: { ok: true, data },
+      } as Message);
+    respond(undefined, { stray: true });
+    respond(req2.correlationId, { id: 2 });
+    respond(req1.correlationId, { id: 1, x: 2 });
 
-    const resp: Message = {
-      action: Actions.QueryResponse,
-      timestamp: Date.now(),
-      payload: { ok: true, data: { id: 1, x: 2 } },
-    } as any;
-    sock.emitMessage(resp);
+    await expect(first).resolves.toEqual({ id: 1, x: 2 });
+    await expect(second).resolves.toEqual({ id: 2 });
+  });
+
+  it('query: in-flight cap rejects or queues in FIFO order', async () => {
+    const sock = new FakeSocket();
+    const client = new WsClient({
+      url: 'ws://fake',
+      maxInFlightQueries: 1,
+      socketFactory: (() => sock) as unknown as () => WebSocket,
+    });
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    const first = client.query('A');
+    await expect(client.query('B')).rejects.toMatchObject({
+      message: '[ws-client] too many queries in flight',
+      code: 'TOO_MANY_IN_FLIGHT',
+      maxInFlight: 1,
+    });
+
+    (client as any).queueQueries = true;
+    const second = client.query('B');
+    const third = client.query('C');
+    expect(sock.sent.map((s) => JSON.parse(s).payload.name)).toEqual(['A']);
+
+    const reply = (i: number) => {
+      const req = JSON.parse(sock.sent[i]!);
+      sock.emitMessage({ action: Actions.QueryResponse, correlationId: req.correlationId, payload: { ok: true, data: i } });
+    };
+    reply(0);
+    await expect(first).resolves.toBe(0);
+    expect(sock.sent.map((s) => JSON.parse(s).payload.name)).toEqual(['A', 'B']);
+    reply(1);
+    await expect(second).resolves.toBe(1);
+    reply(2);
+    await expect(third).resolves.toBe(2);
+  });
+
+  it('query: sends the query span as traceparent; batches continue the envelope trace', async () => {
+    const started: { name: string; parent?: string }[] = [];
+    const tracer = {
+      startSpan: (name: string, o: any) => {
+        started.push({ name, parent: o.parent?.spanId });
+        const spanId = String(started.length).padStart(16, '0');
+        return {
+          spanContext: () => ({ traceId: '1'.repeat(32), spanId, traceFlags: 1 }),
+          setAttribute() {},
+          recordException() {},
+          setStatus() {},
+          end() {},
+        };
+      },
+    };
+    const sock = new FakeSocket();
+    const client = new WsClient({ url: 'ws://fake', tracer, socketFactory: (() => sock) as unknown as () => WebSocket });
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    const pending = client.query('GetThing', {}, { traceparent: `00-${'1'.repeat(32)}-${'a'.repeat(16)}-01` });
+    const req = JSON.parse(sock.sent[0]!);
+    expect(req.traceparent).toBe(`00-${'1'.repeat(32)}-${'0'.repeat(15)}1-01`);
+    sock.emitMessage({ action: Actions.QueryResponse, correlationId: req.correlationId, payload: { ok: true, data: 1 } });
+    await pending;
+
+    client.subscribe('A', () => {});
+    sock.emitMessage({
+      action: Actions.OutboxStreamBatch,
+      traceparent: `00-${'2'.repeat(32)}-${'b'.repeat(16)}-01`,
+      payload: { events: [{ eventType: 'A', payload: '{}' }] },
+    });
+    await new Promise((r) => setTimeout(r, 10));
+    expect(started).toEqual([
+      { name: 'query GetThing', parent: 'a'.repeat(16) },
+      { name: 'dispatch batch', parent: 'b'.repeat(16) },
+      { name: 'handle A', parent: '0'.repeat(15) + '2' },
+    ]);
+  });
+
+  it('logs malformed frames and failed pong sends without the pong password', async () => {
+    const records: any[] = [];
+    const at = (level: string) => (fields: any, msg?: string) => records.push({ level, msg, ...fields });
+    const sock = new FakeSocket();
+    const client = new WsClient({
+      url: 'ws://fake',
+      pongPassword: 'secret-pw',
+      logger: { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') },
+      socketFactory: (() => sock) as unknown as () => WebSocket,
+    });
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    sock.emitMessage('{not json');
+    sock.send = () => {
+      throw new Error('socket gone');
+    };
+    sock.emitMessage({ action: Actions.Ping, timestamp: Date.now() });
+
+    expect(records).toContainEqual(expect.objectContaining({ level: 'warn', msg: 'malformed frame dropped', transport: 'ws' }));
+    expect(records).toContainEqual(
+      expect.objectContaining({ level: 'warn', msg: 'send failed', action: Actions.Pong, error: { name: 'Error', message: 'socket gone' } })
+    );
+    expect(JSON.stringify(records)).not.toContain('secret-pw');
+  });
+
+  it('query: typed errors for remote failures and queries cut off by close', async () => {
+    const { client, sock } = makeClientWithFakeSocket();
+    const p = client.connect();
+    sock.openNow();
+    await p;
+
+    const failing = client.query('GetThing', { id: 1 });
+    const waiting = client.query('Other');
+    const req = JSON.parse(sock.sent[0]!);
+    sock.emitMessage({ action: Actions.QueryResponse, correlationId: req.correlationId, payload: { ok: false, err: 'boom' } });
 
-    const data = await wait;
-    expect(data).toEqual({ id: 1, x: 2 });
+    await expect(failing).rejects.toMatchObject({ code: 'QUERY_REMOTE', transport: 'ws', query: 'GetThing', err: 'boom' });
+    await client.close();
+    await expect(waiting).rejects.toBeInstanceOf(TransportNotConnectedError);
+    await expect(waiting).rejects.toMatchObject({ code: 'TRANSPORT_NOT_CONNECTED', query: 'Other' });
   });
 
   it('query: payload too large error', async () => {
@@ -3,6 +3,30 @@ import { WsClient } from './ws';
 import { IpcParentClient } from './ipc-parent';
 import { IpcChildClient } from './ipc-child';
 import { ElectronIpcRendererClient } from './electron-ipc-renderer';
+import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DomainEvent,
+  FetchEventsOptions,
+  InboundMiddleware,
+  Logger,
+  QueryCall,
+  QueryInterceptor,
+  QueryCacheOptions,
+  QueryOptions,
+  RetryOptions,
+  TransportQueryOptions,
+  ValidationOptions,
+} from '../core';
+import {
+  PayloadValidation,
+  QueryCache,
+  decodeEventPayloads,
+  mergeRetry,
+  paginateEvents,
+  runQueryChain,
+  withRetry,
+} from '../core';
 
 /**
  * Client
@@ -30,6 +54,10 @@ import { ElectronIpcRendererClient } from './electron-ipc-renderer';
  *   app.use(c.expressRouter());
  *   // subscribe + query:
  *   c.subscribe('UserCreated', (e) => {});
+ *   c.subscribe('*', (e) => audit(e));                  // every type; globs like 'User*' too
+ *   c.subscribeModel('Wallet-1', (e) => {});             // every event of one model
+ *   c.useInbound(async (e, ctx, next) => { const t = Date.now(); await next(); log(e.eventType, Date.now() - t); });
+ *   c.useQuery((call, next) => next({ ...call, dto: { ...(call.dto as object), tenant: 't1' } }));
  *   const res = await c.query('GetUser', { id: 1 });
  *
  * WS:
@@ -56,6 +84,12 @@ import { ElectronIpcRendererClient } from './electron-ipc-renderer';
  *   const c2 = new Client({ transport: { type: 'electron-ipc-renderer', options: { ipcRenderer, pongPassword: 'pw' } } });
  *
  *
+ * Validation (any transport):
+ *   const c = new Client({ transport: {...}, validation: { events: { UserCreated: schema }, onInvalidEvent: 'skip' } });
+ *
+ * Logging (any transport):
+ *   const c = new Client({ transport: {...}, logger: pino() }); // or `console`
+ *
  * Notes:
  * - HTTP returns ACK inline; WS/IPCs/Electron send ACK as messages.
  * - Comments intentionally in English only.
@@ -66,9 +100,13 @@ export class Client {
   private ipcp?: IpcParentClient;
   private ipcc?: IpcChildClient;
   private elr?: ElectronIpcRendererClient;
+  private readonly validation?: PayloadValidation;
+  private interceptors: QueryInterceptor[] = [];
+  private readonly retry?: RetryOptions;
+  private readonly cache?: QueryCache;
 
   constructor(
-    opts:
+    opts: (
       | { transport: { type: 'http'; inbound: HttpInboundOptions; query: HttpQueryOptions } }
       | { transport: { type: 'ws'; options: ConstructorParameters<typeof WsClient>[0] } }
       | { transport: { type: 'ipc-parent'; options: ConstructorParameters<typeof IpcParentClient>[0] } }
@@ -79,49 +117,139 @@ export class Client {
             options?: ConstructorParameters<typeof ElectronIpcRendererClient>[0];
           };
         }
+    ) & {
+      /** Runtime validators for event payloads and query results. */
+      validation?: ValidationOptions;
+      /** Default retry policy of every query; per-call `retry` is merged over it. */
+      retry?: RetryOptions;
+      /** Opt-in query result cache with TTL, stale-while-revalidate and event-driven invalidation. */
+      cache?: QueryCacheOptions;
+      /** Structured logger (pino/console-compatible) for the transport, unless its options set their own. */
+      logger?: Logger;
+    }
   ) {
+    if (opts.validation) this.validation = new PayloadValidation(opts.validation);
+    this.retry = opts.retry;
+    const logger = opts.logger;
     switch (opts.transport.type) {
       case 'http':
-        this.http = new HttpClient(opts.transport.inbound, opts.transport.query);
+        this.http = new HttpClient({ logger, ...opts.transport.inbound }, opts.transport.query);
         break;
       case 'ws':
-        this.ws = new WsClient(opts.transport.options);
+        this.ws = new WsClient({ logger, ...opts.transport.options });
         break;
       case 'ipc-parent':
-        this.ipcp = new IpcParentClient(opts.transport.options);
+        this.ipcp = new IpcParentClient({ logger, ...opts.transport.options });
         break;
       case 'ipc-child':
-        this.ipcc = new IpcChildClient(opts.transport.options);
+        this.ipcc = new IpcChildClient({ logger, ...opts.transport.options });
         break;
       case 'electron-ipc-renderer':
-        this.elr = new ElectronIpcRendererClient(opts.transport.options);
+        this.elr = new ElectronIpcRendererClient({ logger, ...opts.transport.options });
         break;
       default:
         throw new Error('[client] unknown transport');
     }
+    if (opts.cache) {
+      this.cache = new QueryCache(opts.cache);
+      this.cache.watch((type, handler) => this.subscribeTransport(type, handler));
+    }
   }
 
   // ---- subscriptions ----
   subscribe<T = any>(constructorName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    if (this.http) return this.http.subscribe<T>(constructorName, handler);
-    if (this.ws) return this.ws.subscribe<T>(constructorName, handler);
-    if (this.ipcp) return this.ipcp.subscribe<T>(constructorName, handler);
-    if (this.ipcc) return this.ipcc.subscribe<T>(constructorName, handler);
-    if (this.elr) return this.elr.subscribe<T>(constructorName, handler);
+    if (this.validation) handler = this.validation.wrap(constructorName, handler);
+    return this.subscribeTransport(constructorName, handler);
+  }
+
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    if (this.validation) handler = this.validation.wrap('*', handler);
+    if (this.http) return this.http.subscribeModel<T>(modelName, handler);
+    if (this.ws) return this.ws.subscribeModel<T>(modelName, handler);
+    if (this.ipcp) return this.ipcp.subscribeModel<T>(modelName, handler);
+    if (this.ipcc) return this.ipcc.subscribeModel<T>(modelName, handler);
+    if (this.elr) return this.elr.subscribeModel<T>(modelName, handler);
+    throw new Error('[client] no transport');
+  }
+
+  /** Inbound middleware `(event, ctx, next)`; runs around every handler call of a batch. */
+  useInbound(mw: InboundMiddleware): () => void {
+    if (this.http) return this.http.useInbound(mw);
+    if (this.ws) return this.ws.useInbound(mw);
+    if (this.ipcp) return this.ipcp.useInbound(mw);
+    if (this.ipcc) return this.ipcc.useInbound(mw);
+    if (this.elr) return this.elr.useInbound(mw);
     throw new Error('[client] no transport');
   }
 
+  // ---- connection state ----
+  /** Listen for connection state changes (connecting, open, online, reconnecting, closed). Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.transport.on(event, listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.transport.state;
+  }
+  /** Whether a ping/pong went through recently, i.e. `state.state === 'online'`. */
+  isOnline(): boolean {
+    return this.state.state === 'online';
+  }
+
+  private get transport() {
+    const t = this.http ?? this.ws ?? this.ipcp ?? this.ipcc ?? this.elr;
+    if (!t) throw new Error('[client] no transport');
+    return t;
+  }
+
   // ---- query ----
-  async query<TReq, TRes>(name: string, dto?: TReq, timeoutMs?: number): Promise<TRes> {
-    let raw: any;
-    if (this.http) raw = await this.http.query<TReq, TRes>(name, dto, timeoutMs ?? 5_000);
-    else if (this.ws) raw = await this.ws.query<TReq, TRes>(name, dto, timeoutMs ?? 5_000);
-    else if (this.ipcp) raw = await this.ipcp.query<TReq, TRes>(name, dto, timeoutMs ?? 5_000);
-    else if (this.ipcc) raw = await this.ipcc.query<TReq, TRes>(name, dto, timeoutMs ?? 5_000);
-    else if (this.elr) raw = await this.elr.query<TReq, TRes>(name, dto, timeoutMs ?? 5_000);
-    else throw new Error('[client] no transport');
+  /**
+   * Add a query interceptor `(call, next)`. Interceptors run in registration order
+   * around the built-in `decodeEventPayloads`, so they see decoded results. Returns a remover.
+   */
+  useQuery(interceptor: QueryInterceptor): () => void {
+    this.interceptors = [...this.interceptors, interceptor];
+    return () => {
+      this.interceptors = this.interceptors.filter((i) => i !== interceptor);
+    };
+  }
 
-    return this.postProcess(name, raw) as TRes;
+  /**
+   * `opts` is a timeout in ms or `{ timeoutMs, signal, retry }`. With `retry.idempotent`, transient
+   * failures are retried with backoff until `maxAttempts` or the overall `timeoutMs` deadline.
+   * Aborting `signal` rejects with AbortError, also between retry attempts.
+   */
+  async query<TReq, TRes>(name: string, dto?: TReq, opts?: number | QueryOptions): Promise<TRes> {
+    const o = typeof opts === 'number' ? { timeoutMs: opts } : opts ?? {};
+    const call: QueryCall = {
+      name,
+      dto,
+      timeoutMs: o.timeoutMs ?? 5_000,
+      signal: o.signal,
+      traceparent: o.traceparent,
+      retry: mergeRetry(this.retry, o.retry),
+      meta: {},
+    };
+    const send = (c: QueryCall) =>
+      withRetry((timeoutMs) => this.send({ ...c, timeoutMs }), c.timeoutMs, c.retry, c.signal);
+    const chain = this.cache
+      ? [...this.interceptors, this.cache.interceptor, decodeEventPayloads]
+      : [...this.interceptors, decodeEventPayloads];
+    const data = (await runQueryChain(chain, call, send)) as TRes;
+    return this.validation ? this.validation.result(name, data) : data;
+  }
+
+  /** Drop cached query results (all, or one query name). No-op without `cache`. */
+  invalidateQueries(name?: string): void {
+    this.cache?.invalidate(name);
+  }
+
+  /**
+   * Read a model's history as an async iterable, one FetchEventsQuery page at a time.
+   * Pages go through `query()`, so interceptors, retries and validation apply to each of them,
+   * and `decodeEventPayloads` decodes them.
+   */
+  fetchEvents(opts: FetchEventsOptions): AsyncIterable<DomainEvent> {
+    return paginateEvents((name, dto, o) => this.query(name, dto, o), opts);
   }
 
   // ---- HTTP handlers (only when type=http) ----
@@ -153,41 +281,27 @@ export class Client {
   }
 
   // ---- internal helpers ----
-  private postProcess(name: string, data: any) {
-    if (name === 'GetModelsQuery') {
-      return this.parsePayload1D(data);
-    }
-    if (name === 'FetchEventsQuery') {
-      return this.parsePayload1D(data);
-    }
-    return data;
-  }
-
-  private parsePayload1D(arr: any): any {
-    if (!Array.isArray(arr)) return arr;
-    return arr.map((item) => this.parseItemPayload(item));
-  }
-
-  private parsePayload2D(arr2d: any): any {
-    if (!Array.isArray(arr2d)) return arr2d;
-    return arr2d.map((inner) => (Array.isArray(inner) ? inner.map((item) => this.parseItemPayload(item)) : inner));
-  }
-
-  private parseItemPayload(item: any) {
-    if (!item || typeof item !== 'object') return item;
-    const next = { ...item };
-    const p = (next as any).payload;
-    if (typeof p === 'string') {
-      (next as any).payload = this.safeJsonParse(p);
-    }
-    return next;
+  private subscribeTransport<T>(name: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    if (this.http) return this.http.subscribe<T>(name, handler);
+    if (this.ws) return this.ws.subscribe<T>(name, handler);
+    if (this.ipcp) return this.ipcp.subscribe<T>(name, handler);
+    if (this.ipcc) return this.ipcc.subscribe<T>(name, handler);
+    if (this.elr) return this.elr.subscribe<T>(name, handler);
+    throw new Error('[client] no transport');
   }
 
-  private safeJsonParse(s: string) {
-    try {
-      return JSON.parse(s);
-    } catch {
-      return s;
-    }
+  private send(c: QueryCall): Promise<unknown> {
+    const o: TransportQueryOptions = {
+      timeoutMs: c.timeoutMs,
+      signal: c.signal,
+      traceparent: c.traceparent,
+      headers: c.headers,
+    };
+    if (this.http) return this.http.query(c.name, c.dto, o);
+    if (this.ws) return this.ws.query(c.name, c.dto, o);
+    if (this.ipcp) return this.ipcp.query(c.name, c.dto, o);
+    if (this.ipcc) return this.ipcc.query(c.name, c.dto, o);
+    if (this.elr) return this.elr.query(c.name, c.dto, o);
+    return Promise.reject(new Error('[client] no transport'));
   }
 }
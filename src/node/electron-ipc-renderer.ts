@@ -1,6 +1,35 @@
-import type { Message, OutboxStreamAckPayload, OutboxStreamBatchPayload, QueryRequestPayload } from '../core';
-import { Actions, createDomainEventFromWire } from '../core';
-import { uuid, normalize, nextBackoff, delay } from '../core';
+import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DedupStore,
+  InboundMiddleware,
+  Message,
+  OutboxStreamAckPayload,
+  OutboxStreamBatchPayload,
+  QueryRequestPayload,
+  QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  answerPing,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  InvalidResponseError,
+} from '../core';
+import { uuid, normalize, nextBackoff, delay, abortError, toQueryOptions } from '../core';
 
 /**
  * ElectronRendererClient
@@ -9,7 +38,7 @@ import { uuid, normalize, nextBackoff, delay } from '../core';
  * - Runs in the Electron renderer process and communicates with the main process
  *   over IPC on the 'transport:message' channel.
  * - Mirrors the server-side ElectronIpcMainService protocol:
- *   * Ping/Pong with optional password.
+ *   * Ping/Pong with optional password, or an HMAC proof in 'challenge' mode.
  *   * Outbox batch -> fan-out -> send Ack.
  *   * Query request/response.
  *
@@ -24,20 +53,62 @@ import { uuid, normalize, nextBackoff, delay } from '../core';
  */
 export class ElectronIpcRendererClient {
   private readonly ipc: IpcRendererLike;
-  private readonly pongPassword?: string;
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
+  private readonly clientId?: string;
+  private readonly queryCancelNotice: boolean;
 
-  private subs = new Map<string, Set<(evt: any) => unknown | Promise<unknown>>>();
-  private pendingQueries = new Map<string, (payload: any) => void>();
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
+  /** Resolved with the response payload, or with the error the query must fail with. */
+  private pendingQueries = new Map<string, { name: string; resolve: (response: unknown) => void }>();
 
   private rawHandlers = new Set<(m: Message) => void>();
   private actionHandlers = new Map<string, Set<(m: Message) => void>>();
 
   private readonly onIpc = (_: any, raw: unknown) => this.handleIncoming(raw);
 
-  constructor(opts?: { ipcRenderer?: IpcRendererLike; pongPassword?: string }) {
+  constructor(opts?: {
+    ipcRenderer?: IpcRendererLike;
+    pongPassword?: Credential;
+    /** 'challenge': answer the Ping nonce with an HMAC over nonce and `clientId` instead of the password. Default: 'password'. */
+    pongAuth?: PongAuthMode;
+    /** Bound into the 'challenge' proof. */
+    clientId?: string;
+    dedup?: DedupStore;
+    /** Sink for the built-in transport metrics, e.g. a `MetricsRegistry`. */
+    metrics?: MetricsSink;
+    /** Spans for queries, batches and handlers, with W3C traceparent propagation. No-op by default. */
+    tracer?: Tracer;
+    /** pino/console-compatible structured logger; tokens and pong passwords are redacted. Silent by default. */
+    logger?: Logger;
+    /** Send 'query.cancel' with the requestId when a query is aborted. */
+    queryCancelNotice?: boolean;
+    /** 'online' falls back to 'open' without a ping/pong for this long. Default: 15000 ms; 0 = never. */
+    onlineTimeoutMs?: number;
+  }) {
     // Resolve ipcRenderer: allow injection (tests) or use global require
     this.ipc = opts?.ipcRenderer ?? getIpcRenderer();
-    this.pongPassword = opts?.pongPassword;
+    this.pongPassword = new CredentialSource(opts?.pongPassword);
+    this.pongAuth = opts?.pongAuth ?? 'password';
+    this.clientId = opts?.clientId;
+    this.queryCancelNotice = !!opts?.queryCancelNotice;
+    this.status = new ConnectionStatus('open', { onlineTimeoutMs: opts?.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts?.metrics, 'electron-ipc-renderer');
+    this.tracer = new TransportTracer(opts?.tracer, 'electron-ipc-renderer');
+    this.logger = new TransportLogger(opts?.logger, 'electron-ipc-renderer', () => this.pongPassword.known());
+    this.dispatcher = new EventDispatcher({
+      tag: '[client-electron-renderer]',
+      transport: 'electron-ipc-renderer',
+      ordering: 'sequential',
+      dedup: opts?.dedup,
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     this.ipc.on('transport:message', this.onIpc);
   }
@@ -54,13 +125,27 @@ export class ElectronIpcRendererClient {
 
   // ---- subscriptions ----
   subscribe<T = any>(constructorName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
-    const set = this.subs.get(constructorName) ?? new Set();
-    set.add(handler as any);
-    this.subs.set(constructorName, set);
-    return () => set.delete(handler as any);
+    return this.dispatcher.subscribe<T>(constructorName, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
   getSubscriptionCount(constructorName: string): number {
-    return this.subs.get(constructorName)?.size ?? 0;
+    return this.dispatcher.count(constructorName);
+  }
+
+  // ---- connection state ------------------------------------------------------
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
   }
 
   // ---- extensibility ----
@@ -80,71 +165,131 @@ export class ElectronIpcRendererClient {
   }
 
   // ---- query ----
-  async query<TReq, TRes>(name: string, dto?: TReq, timeoutMs = 5_000): Promise<TRes> {
+  async query<TReq, TRes>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq, TRes>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const { timeoutMs = 5_000, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[client-electron-renderer]', signal);
     const requestId = uuid();
     const env: Message<QueryRequestPayload> = {
       action: Actions.QueryRequest,
       requestId,
       timestamp: Date.now(),
       payload: { name, dto },
+      traceparent,
+      headers,
     };
 
-    let resolveFn!: (v: any) => void;
-    const p = new Promise<TRes>((resolve) => (resolveFn = resolve));
-    this.pendingQueries.set(requestId, resolveFn);
+    let resolveFn!: (response: unknown) => void;
+    const p = new Promise<unknown>((resolve) => (resolveFn = resolve));
+    this.pendingQueries.set(requestId, { name, resolve: resolveFn });
 
-    this.ipc.send('transport:message', env);
+    try {
+      this.ipc.send('transport:message', env);
+    } catch (e) {
+      this.pendingQueries.delete(requestId);
+      throw new TransportNotConnectedError('[client-electron-renderer]', {
+        transport: 'electron-ipc-renderer',
+        query: name,
+        cause: e,
+      });
+    }
 
     // Exponential backoff loop (simple, jittered)
     const deadline = Date.now() + timeoutMs;
     const backoff = { wait: 16 };
 
     while (Date.now() < deadline) {
-      if (!this.pendingQueries.has(requestId)) return await p;
-      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }));
+      if (!this.pendingQueries.has(requestId)) return this.unwrap<TRes>(name, await p);
+      if (signal?.aborted) {
+        this.pendingQueries.delete(requestId);
+        if (this.queryCancelNotice) {
+          this.ipc.send('transport:message', { action: Actions.QueryCancel, requestId, timestamp: Date.now() });
+        }
+        throw abortError('[client-electron-renderer]', signal);
+      }
+      await delay(nextBackoff(backoff, { factor: 1.6, max: 300, jitter: 0.2 }), signal);
     }
 
     this.pendingQueries.delete(requestId);
-    throw new Error('[client-electron-renderer] query timeout');
+    throw new QueryTimeoutError('[client-electron-renderer]', {
+      transport: 'electron-ipc-renderer',
+      query: name,
+      timeoutMs: timeoutMs,
+    });
+  }
+
+  /** Result of a settled query: its data, or the error it failed with. */
+  private unwrap<TRes>(name: string, response: unknown): TRes {
+    if (response instanceof Error) throw response;
+    const ctx = { transport: 'electron-ipc-renderer', query: name };
+    const pl = response as QueryResponsePayload | undefined;
+    if (!pl || typeof pl !== 'object') throw new InvalidResponseError('[client-electron-renderer]', ctx);
+    if (pl.ok === false) throw new QueryRemoteError('[client-electron-renderer]', { ...ctx, err: pl.err });
+    return (pl.data ?? (pl as any).payload) as TRes;
   }
 
   async close(): Promise<void> {
     this.ipc.off('transport:message', this.onIpc);
+    for (const [, p] of this.pendingQueries) {
+      p.resolve(
+        new TransportNotConnectedError('[client-electron-renderer]', {
+          transport: 'electron-ipc-renderer',
+          query: p.name,
+        })
+      );
+    }
     this.pendingQueries.clear();
-    this.subs.clear();
+    this.dispatcher.clear();
     this.rawHandlers.clear();
     this.actionHandlers.clear();
+    this.status.set('closed');
   }
 
-  /* eslint-disable no-empty */
   // ---- inbound routing ----
   private async handleIncoming(raw: unknown) {
     const msg = normalize(raw);
-    if (!msg?.action) return;
+    if (!msg?.action) {
+      this.logger.warn('malformed message dropped', { type: typeof raw });
+      return;
+    }
 
     // user taps first
     for (const h of this.rawHandlers) {
       try {
         h(msg);
-      } catch {}
+      } catch (e) {
+        this.logger.warn('tapRaw handler threw', { action: msg.action, error: e });
+      }
     }
     const ah = this.actionHandlers.get(msg.action);
     if (ah?.size) {
       for (const h of ah) {
         try {
           h(msg);
-        } catch {}
+        } catch (e) {
+          this.logger.warn('onAction handler threw', { action: msg.action, error: e });
+        }
       }
     }
 
     switch (msg.action) {
       case Actions.Ping: {
-        const pong: Message<{ password?: string }> = {
-          action: Actions.Pong,
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-          timestamp: Date.now(),
-        };
-        this.ipc.send('transport:message', pong);
+        this.status.alive();
+        const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+        answerPing(
+          msg,
+          auth,
+          (payload) => this.ipc.send('transport:message', { action: Actions.Pong, payload, timestamp: Date.now() }),
+          this.logger
+        );
         return;
       }
 
@@ -152,39 +297,40 @@ export class ElectronIpcRendererClient {
         const p = msg.payload as OutboxStreamBatchPayload;
         if (!p || !Array.isArray(p.events)) return;
 
-        for (const wire of p.events) {
-          const set = this.subs.get(wire.eventType || 'UnknownEvent');
-          if (!set?.size) continue;
-          const evt = createDomainEventFromWire(wire);
-          for (const h of set) await h(evt);
-        }
-
         const ack: Message<OutboxStreamAckPayload> = {
           action: Actions.OutboxStreamAck,
           timestamp: Date.now(),
-          payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+          payload: await this.dispatcher.dispatch(p.events, undefined, msg.traceparent),
         };
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            requestId: msg.requestId,
+            size: p.events.length,
+            okIndices: ack.payload!.okIndices,
+          });
+        }
         this.ipc.send('transport:message', ack);
         return;
       }
 
       case Actions.QueryResponse: {
-        if (!msg.requestId) return;
-        const resolver = this.pendingQueries.get(msg.requestId);
-        if (!resolver) return;
+        const pending = msg.requestId ? this.pendingQueries.get(msg.requestId) : undefined;
+        if (!msg.requestId || !pending) {
+          this.logger.debug('query response without a pending query dropped', { requestId: msg.requestId });
+          return;
+        }
         this.pendingQueries.delete(msg.requestId);
 
-        const pl: any = msg.payload;
-        if (pl?.ok === false) throw new Error(String(pl?.err ?? 'query failed'));
-        resolver(pl?.data ?? (pl as any)?.payload);
+        pending.resolve(msg.payload);
         return;
       }
 
       default:
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         return;
     }
   }
-  /* eslint-enable no-empty */
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,56 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import type { DedupStore } from '../core';
+import { InMemoryDedupStore } from '../core';
+
+export type FileDedupStoreOptions = {
+  /** File where handled keys are appended, one per line. */
+  path: string;
+  /** Keys kept (LRU) in memory and on disk after compaction. Default: 10_000. */
+  maxEntries?: number;
+};
+
+/**
+ * FileDedupStore
+ * -----------------------------------------------------------------------------
+ * Dedup store that survives restarts:
+ * - Loads the key file on construction.
+ * - Appends every new key synchronously (a crash never loses an acknowledged key).
+ * - Rewrites the file with the live LRU keys once it grows past 2 × maxEntries lines.
+ */
+export class FileDedupStore implements DedupStore {
+  private readonly path: string;
+  private readonly max: number;
+  private readonly mem: InMemoryDedupStore;
+  private lines = 0;
+
+  constructor(opts: FileDedupStoreOptions) {
+    if (!opts?.path) throw new Error('[file-dedup-store] path is required');
+    this.path = opts.path;
+    this.max = Math.max(1, opts.maxEntries ?? 10_000);
+    this.mem = new InMemoryDedupStore({ maxEntries: this.max });
+
+    if (existsSync(this.path)) {
+      for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+        if (!line) continue;
+        this.mem.add(line);
+        this.lines++;
+      }
+    }
+  }
+
+  has(key: string): boolean {
+    return this.mem.has(key);
+  }
+
+  add(key: string): void {
+    this.mem.add(key);
+    appendFileSync(this.path, key + '\n', 'utf8');
+    if (++this.lines > this.max * 2) this.compact();
+  }
+
+  private compact() {
+    const keys = this.mem.entries();
+    writeFileSync(this.path, keys.length ? keys.join('\n') + '\n' : '', 'utf8');
+    this.lines = keys.length;
+  }
+}
@@ -1,22 +1,97 @@
 import { URL } from 'node:url';
-import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'node:http';
 import express from 'express';
-import type { Message, OutboxStreamAckPayload, OutboxStreamBatchPayload, QueryResponsePayload } from '../core';
-import { Actions, createDomainEventFromWire, utf8Len, TRANSPORT_OVERHEAD_WIRE } from '../core';
+import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  CheckpointOptions,
+  DeadLetterOptions,
+  DedupStore,
+  HandlerStrategy,
+  InboundMiddleware,
+  Message,
+  OutboxStreamAckPayload,
+  OutboxStreamBatchPayload,
+  QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  onAbort,
+  toQueryOptions,
+  utf8Len,
+  TRANSPORT_OVERHEAD_WIRE,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  MetricsRegistry,
+  formatPrometheus,
+  PROMETHEUS_CONTENT_TYPE,
+  QueryTimeoutError,
+  QueryRemoteError,
+  PayloadTooLargeError,
+  InvalidResponseError,
+  TransportError,
+  TransportNotConnectedError,
+  CredentialUnavailableError,
+  raceAbort,
+  pongPayload,
+  CredentialSource,
+} from '../core';
+import type { WebhookRejection, WebhookSignatureOptions } from './webhook-auth';
+import { WebhookGuard } from './webhook-auth';
 
 export type HttpInboundOptions = {
   /** Full URL where the server will POST batches (defines exact path to mount). */
   webhookUrl: string;
   /** Optional separate URL for ping. If omitted, ping is served on webhook path as well. */
   pingUrl?: string;
-  /** Optional token to validate inbound webhook/ping via "x-transport-token". */
-  token?: string;
-  /** If set, include { password } in Pong payload so the server accepts it. */
-  pongPassword?: string;
+  /**
+   * Optional token to validate inbound webhook/ping via "x-transport-token" (constant-time); also sent
+   * on queries. A provider is called per query and per inbound request; inbound, the value before
+   * the last rotation is still accepted.
+   */
+  token?: Credential;
+  /** Require HMAC-SHA256 signed, fresh, never-replayed webhook and ping requests. Disabled by default. */
+  signature?: WebhookSignatureOptions;
+  /** Accept webhook, ping and metrics requests only from these addresses or CIDR ranges. Disabled by default. */
+  allowedIps?: string[];
+  /** If set, include { password } in Pong payload so the server accepts it. A provider is called per Pong. */
+  pongPassword?: Credential;
+  /** 'challenge': answer the Ping nonce with an HMAC over nonce and `clientId` instead of the password. Default: 'password'. */
+  pongAuth?: PongAuthMode;
+  /** Bound into the 'challenge' proof. */
+  clientId?: string;
   /** Maximum allowed wire size in bytes. Default: 1 MiB. */
   maxWireBytes?: number;
   /** Processing timeout for a batch before replying. Default: 3000 ms. */
   processTimeoutMs?: number;
+  /** 'online' falls back to 'open' without a ping/pong for this long. Default: 15000 ms; 0 = never. */
+  onlineTimeoutMs?: number;
+  /** Several handlers of one event type: 'sequential' in registration order (default) or 'parallel'. */
+  handlerStrategy?: HandlerStrategy;
+  /** Dead-letter events whose handler keeps throwing, then ACK them. Disabled by default. */
+  deadLetter?: DeadLetterOptions;
+  /** Skip (and ACK) events already handled, e.g. `new InMemoryDedupStore()`. */
+  dedup?: DedupStore;
+  /** Sink for the built-in transport metrics, e.g. a `MetricsRegistry`. */
+  metrics?: MetricsSink;
+  /** Spans for queries, batches and handlers, with W3C traceparent propagation. No-op by default. */
+  tracer?: Tracer;
+  /** pino/console-compatible structured logger; tokens and pong passwords are redacted. Silent by default. */
+  logger?: Logger;
+  /** Serve `metrics` in Prometheus text format on GET at this path (requires a `MetricsRegistry`). Disabled by default. */
+  metricsPath?: string;
+  /** Track eventVersion per modelName and backfill gaps via FetchEventsQuery. Disabled by default. */
+  checkpoints?: CheckpointOptions;
 };
 
 export type HttpQueryOptions = {
@@ -34,110 +109,228 @@ export type SubscribeHandler<T = any> = (evt: T) => unknown | Promise<unknown>;
  * -----------------------------------------------------------------------------
  * Role:
  * - Provides `nodeHttpHandler` and `expressRouter()` for inbound HTTP.
- * - Responds to pings with Pong (optionally including password).
+ * - Authenticates inbound requests by `allowedIps`, `token` and, with `signature`, an HMAC over
+ *   timestamp and body with replay protection (see WebhookGuard).
+ * - `token` and `pongPassword` may be providers, called per query, request or Pong, so they rotate
+ *   without recreating the client.
+ * - Responds to pings with Pong (optionally including password, or an HMAC proof in 'challenge' mode);
+ *   a ping turns `state` 'online'.
+ * - Continues the sender's trace from the `traceparent` header and sends it on queries.
+ * - With `metricsPath`, serves the `metrics` registry to Prometheus scrapers (GET).
  * - Accepts Outbox batches and processes them with type-level sequencing:
- *   * Exactly one subscriber per event type (duplicate subscription → error).
- *   * Events of the same type are processed **sequentially** in arrival order.
- *   * Different types are processed **in parallel**.
+ *   * Any number of handlers per key, run per `handlerStrategy`; a key is an event type,
+ *     a glob over types ('*', 'User*') or a modelName (`subscribeModel`).
+ *   * Events of the same key are processed **sequentially** in arrival order.
+ *   * Different keys are processed **in parallel**.
  *   * Types without a subscriber are ignored (no-op) and do not block ACK.
- * - Replies with ACK only after all relevant handlers finish within `processTimeoutMs`.
+ * - Replies with ACK after all relevant handlers finish or `processTimeoutMs` elapses:
+ *   `okIndices` lists events that completed in time, `ok: false` when the list is partial.
  */
 export class HttpClient {
   private readonly webhook: URL;
   private readonly pingPath?: string;
-  private readonly token?: string;
-  private readonly pongPassword?: string;
+  private readonly token: CredentialSource;
+  private readonly guard: WebhookGuard;
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
+  private readonly clientId?: string;
   private readonly maxBytes: number;
   private readonly processTimeoutMs: number;
   private readonly queryBase: string;
   private readonly defaultQueryTimeoutMs: number;
 
-  // One handler per event type
-  private subs = new Map<string, SubscribeHandler>();
+  // Handlers per subscription key (type, glob or model)
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly registry?: MetricsRegistry;
+  private readonly metricsPath?: string;
+  private readonly status: ConnectionStatus;
 
   constructor(inbound: HttpInboundOptions, query: HttpQueryOptions) {
     if (!query?.baseUrl) throw new Error('[client-http] query.baseUrl is required');
     if (!inbound?.webhookUrl) throw new Error('[client-http] inbound.webhookUrl is required');
 
     this.webhook = new URL(inbound.webhookUrl);
-    this.token = inbound.token;
-    this.pongPassword = inbound.pongPassword;
+    this.token = new CredentialSource(inbound.token);
+    this.guard = new WebhookGuard({ ...inbound, token: this.token });
+    this.pongPassword = new CredentialSource(inbound.pongPassword);
+    this.pongAuth = inbound.pongAuth ?? 'password';
+    this.clientId = inbound.clientId;
     this.maxBytes = inbound.maxWireBytes ?? 10 * 1024 * 1024;
     this.processTimeoutMs = Math.max(1, inbound.processTimeoutMs ?? 3000);
+    this.status = new ConnectionStatus('open', { onlineTimeoutMs: inbound.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(inbound.metrics, 'http');
+    this.tracer = new TransportTracer(inbound.tracer, 'http');
+    this.logger = new TransportLogger(inbound.logger, 'http', () => [
+      ...this.token.known(),
+      ...this.pongPassword.known(),
+      inbound.signature?.secret,
+    ]);
+    if (inbound.metricsPath) {
+      if (!(inbound.metrics instanceof MetricsRegistry)) {
+        throw new Error('[client-http] inbound.metricsPath requires inbound.metrics to be a MetricsRegistry');
+      }
+      this.registry = inbound.metrics;
+      this.metricsPath = inbound.metricsPath.replace(/\/+$/, '') || '/';
+    }
+    this.dispatcher = new EventDispatcher({
+      tag: '[client-http]',
+      transport: 'http',
+      handlerStrategy: inbound.handlerStrategy,
+      deadLetter: inbound.deadLetter,
+      dedup: inbound.dedup,
+      checkpoints: inbound.checkpoints,
+      query: (name, dto) => this.query(name, dto),
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     this.pingPath = (inbound.pingUrl ? new URL(inbound.pingUrl).pathname : '/ping').replace(/\/+$/, '') || '/ping';
     this.queryBase = query.baseUrl.replace(/\/+$/, '');
     this.defaultQueryTimeoutMs = Math.max(1, query.defaultQueryTimeoutMs ?? 5000);
   }
 
-  /** Subscribe a handler to a specific DomainEvent constructor name. */
+  /** Subscribe a handler to a DomainEvent constructor name or a glob over it ('*', 'User*'). */
   subscribe<T = any>(eventType: string, handler: SubscribeHandler<T>) {
-    if (this.subs.has(eventType)) {
-      throw new Error(`[client-http] duplicate subscription for type "${eventType}"`);
-    }
-    this.subs.set(eventType, handler as SubscribeHandler);
-    return () => {
-      // Unsubscribe only if the same handler is still attached
-      const current = this.subs.get(eventType);
-      if (current === handler) this.subs.delete(eventType);
-    };
+    return this.dispatcher.subscribe<T>(eventType, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: SubscribeHandler<T>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
+  }
+  getSubscriptionCount(eventType: string): number {
+    return this.dispatcher.count(eventType);
+  }
+
+  // ---- connection state ------------------------------------------------------
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
   }
 
   // ---- query out ----
-  async query<TReq = any, TRes = any>(name: string, dto?: TReq, timeoutMs?: number): Promise<TRes> {
+  /** `opts`: timeout in ms or `{ timeoutMs, signal }`; aborting cancels the HTTP request. */
+  async query<TReq = any, TRes = any>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = any, TRes = any>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs, signal, traceparent, headers: extra } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[client-http]', signal);
     const body = JSON.stringify({ name, dto });
-    if (utf8Len(body) + TRANSPORT_OVERHEAD_WIRE > this.maxBytes) {
-      throw new Error('[client-http] query payload too large');
+    const bytes = utf8Len(body) + TRANSPORT_OVERHEAD_WIRE;
+    if (bytes > this.maxBytes) {
+      throw new PayloadTooLargeError('[client-http]', {
+        transport: 'http',
+        query: name,
+        bytes,
+        maxBytes: this.maxBytes,
+      });
     }
 
     const controller = new AbortController();
-    const t = setTimeout(() => controller.abort(), Math.max(1, timeoutMs ?? this.defaultQueryTimeoutMs));
+    const queryTimeoutMs = timeoutMs ?? this.defaultQueryTimeoutMs;
+    const t = setTimeout(() => controller.abort(), Math.max(1, queryTimeoutMs));
+    const offAbort = onAbort(signal, () => controller.abort());
 
-    let res: Response;
+    let p: QueryResponsePayload;
+    let res: Response | undefined;
     try {
+      // a token provider counts towards the timeout and is abandoned on abort
+      const token = this.token.dynamic
+        ? await raceAbort(this.queryToken(name), controller.signal, '[client-http]')
+        : this.token.value;
+      // the transport's own headers win over interceptor-supplied ones
+      const headers: Record<string, string> = { ...extra, 'Content-Type': 'application/json' };
+      if (traceparent) headers.traceparent = traceparent;
+      if (token) headers['x-transport-token'] = token;
       res = await fetch(this.queryBase + '/query', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers,
         body,
         signal: controller.signal,
       });
+
+      if (!res.ok) {
+        const text = await safeReadText(res);
+        throw new QueryRemoteError('[client-http]', { transport: 'http', query: name, err: text, status: res.status });
+      }
+      p = (await res.json()) as QueryResponsePayload;
     } catch (e: any) {
+      if (signal?.aborted) throw abortError('[client-http]', signal);
+      if (e?.name === 'AbortError') {
+        throw new QueryTimeoutError('[client-http]', { transport: 'http', query: name, timeoutMs: queryTimeoutMs });
+      }
+      if (e instanceof TransportError) throw e;
+      // a body that is not JSON; otherwise `fetch` itself failed: refused, reset, DNS, TLS
+      if (res && e?.name === 'SyntaxError') {
+        throw new InvalidResponseError('[client-http]', { transport: 'http', query: name, cause: e });
+      }
+      throw new TransportNotConnectedError('[client-http]', { transport: 'http', query: name, cause: e });
+    } finally {
       clearTimeout(t);
-      if (e?.name === 'AbortError') throw new Error('[client-http] query timeout');
-      throw e;
-    }
-    clearTimeout(t);
-
-    if (!res.ok) {
-      const text = await safeReadText(res);
-      throw new Error(`[client-http] ${res.status} ${text || ''}`.trim());
+      offAbort();
     }
 
-    const p = (await res.json()) as QueryResponsePayload;
-    if (!p || typeof p.ok !== 'boolean') throw new Error('[client-http] invalid query response');
-    if (p.ok === false) throw new Error(String(p.err ?? 'query failed'));
+    const ctx = { transport: 'http', query: name };
+    if (!p || typeof p.ok !== 'boolean') throw new InvalidResponseError('[client-http]', ctx);
+    if (p.ok === false) throw new QueryRemoteError('[client-http]', { ...ctx, err: p.err });
     return p.data as TRes;
   }
 
+  private async queryToken(name: string): Promise<string | undefined> {
+    try {
+      return await this.token.get();
+    } catch (e) {
+      throw new CredentialUnavailableError('[client-http]', { transport: 'http', query: name, cause: e });
+    }
+  }
+
   // --- Node HTTP/HTTPS request handler ----------------------------------------
   nodeHttpHandler = async (req: IncomingMessage, res: ServerResponse) => {
     try {
-      if (this.token) {
-        const got = String(req.headers['x-transport-token'] ?? '');
-        if (got !== this.token) return this.replyText(res, 401, 'unauthorized');
-      }
+      const check = this.guard.checkRequest(req.socket?.remoteAddress, req.headers);
+      const denied = check instanceof Promise ? await check : check;
+      if (denied) return this.replyText(res, denied.status, denied.reason);
 
       const pathname = safePathname(req.url);
       const hookPath = (this.webhook.pathname || '/').replace(/\/+$/, '') || '/';
       const pingPath = this.pingPath ?? '/ping';
 
+      if (req.method === 'GET' && this.registry && pathname === this.metricsPath) {
+        return this.replyText(res, 200, formatPrometheus(this.registry), PROMETHEUS_CONTENT_TYPE);
+      }
+
       if (req.method === 'POST' && pathname === pingPath) {
-        const pong: Message = {
-          action: Actions.Pong,
-          timestamp: Date.now(),
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-        };
-        return this.replyJson(res, 200, pong);
+        // the body is only needed to verify its signature or to read the challenge nonce
+        let ping: Message = { action: Actions.Ping };
+        if (this.guard.signed || this.pongAuth === 'challenge') {
+          const body = await readBodyBounded(req, this.maxBytes - TRANSPORT_OVERHEAD_WIRE);
+          if (!body.ok) return this.replyText(res, body.errCode!, body.errText!);
+          ping = parseMessage(body.body) ?? ping;
+          const forged = await this.verifySigned(req.headers, body.body, ping.requestId);
+          if (forged) return this.replyText(res, forged.status, forged.reason);
+        }
+        return this.replyJson(res, 200, await this.pong(ping));
       }
 
       if (req.method === 'POST' && pathname === hookPath) {
@@ -147,28 +340,31 @@ export class HttpClient {
         let msg: Message;
         try {
           msg = JSON.parse(body.body || '{}');
-        } catch {
+        } catch (e) {
+          this.logger.warn('malformed webhook body', { error: e });
           return this.replyText(res, 400, 'invalid json');
         }
 
+        const forged = await this.verifySigned(req.headers, body.body, msg?.requestId);
+        if (forged) return this.replyText(res, forged.status, forged.reason);
+
         if (!msg || typeof msg.action !== 'string') return this.replyText(res, 422, 'invalid message');
         if (msg.action !== Actions.OutboxStreamBatch) return this.replyText(res, 422, 'invalid action');
 
         const p = msg.payload as OutboxStreamBatchPayload;
         if (!p || !Array.isArray(p.events)) return this.replyText(res, 400, 'invalid payload');
 
-        await this.processBatchWithTimeout(p);
-
         const ack: Message<OutboxStreamAckPayload> = {
           action: Actions.OutboxStreamAck,
           timestamp: Date.now(),
-          payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+          payload: await this.processBatchWithTimeout(p, headerValue(req.headers.traceparent) ?? msg.traceparent),
         };
         return this.replyJson(res, 200, ack);
       }
 
       return this.replyText(res, 404, 'not found');
     } catch (e: any) {
+      this.logger.error('webhook request failed', { method: req.method, url: req.url, error: e });
       return this.replyText(res, 500, String(e?.message ?? e ?? 'internal error'));
     }
   };
@@ -180,41 +376,49 @@ export class HttpClient {
     const hookPath = (this.webhook.pathname || '/').replace(/\/+$/, '') || '/';
     const pingPath = this.pingPath ?? '/ping';
 
-    if (this.token) {
-      r.use([hookPath, pingPath], (req, res, next) => {
-        const got = String(req.header('x-transport-token') ?? '');
-        if (got !== this.token) return res.status(401).send('unauthorized');
+    const guarded = this.metricsPath ? [hookPath, pingPath, this.metricsPath] : [hookPath, pingPath];
+
+    r.use(guarded, (req, res, next) => {
+      Promise.resolve(this.guard.checkRequest(req.ip ?? req.socket.remoteAddress, req.headers)).then((denied) => {
+        if (denied) return this.rejectExpress(res, denied.status, denied.reason);
         next();
-      });
-    }
+      }, next);
+    });
 
-    r.post(pingPath, (_req, res) => {
-      const pong: Message = {
-        action: Actions.Pong,
-        timestamp: Date.now(),
-        payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-      };
-      return res.status(200).json(pong);
+    // signatures cover the exact bytes sent, so keep them next to the parsed body
+    const rawBodies = new WeakMap<IncomingMessage, string>();
+    const json = express.json({
+      limit: this.maxBytes,
+      verify: this.guard.signed ? (req, _res, buf) => rawBodies.set(req, buf.toString('utf8')) : undefined,
+    });
+
+    r.post(pingPath, json, async (req, res) => {
+      const forged = await this.verifySigned(req.headers, rawBodies.get(req) ?? '', req.body?.requestId);
+      if (forged) return this.rejectExpress(res, forged.status, forged.reason);
+      return res.status(200).json(await this.pong({ action: Actions.Ping, ...req.body }));
     });
 
-    r.post(hookPath, express.json({ limit: this.maxBytes }), async (req, res) => {
+    if (this.registry) {
+      const registry = this.registry;
+      r.get(this.metricsPath!, (_req, res) => {
+        res.status(200).type(PROMETHEUS_CONTENT_TYPE).send(formatPrometheus(registry));
+      });
+    }
+
+    r.post(hookPath, json, async (req, res) => {
       const msg = req.body as Message;
-      if (!msg || typeof msg.action !== 'string') return res.status(422).send('invalid message');
-      if (msg.action !== Actions.OutboxStreamBatch) return res.status(422).send('invalid action');
+      const forged = await this.verifySigned(req.headers, rawBodies.get(req) ?? '', msg?.requestId);
+      if (forged) return this.rejectExpress(res, forged.status, forged.reason);
+      if (!msg || typeof msg.action !== 'string') return this.rejectExpress(res, 422, 'invalid message');
+      if (msg.action !== Actions.OutboxStreamBatch) return this.rejectExpress(res, 422, 'invalid action');
 
       const p = msg.payload as OutboxStreamBatchPayload;
-      if (!p || !Array.isArray(p.events)) return res.status(400).send('invalid payload');
-
-      try {
-        await this.processBatchWithTimeout(p);
-      } catch (e: any) {
-        return res.status(500).send(String(e?.message ?? e ?? 'internal error'));
-      }
+      if (!p || !Array.isArray(p.events)) return this.rejectExpress(res, 400, 'invalid payload');
 
       const ack: Message<OutboxStreamAckPayload> = {
         action: Actions.OutboxStreamAck,
         timestamp: Date.now(),
-        payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
+        payload: await this.processBatchWithTimeout(p, req.header('traceparent') ?? msg.traceparent),
       };
       return res.status(200).json(ack);
     });
@@ -224,87 +428,77 @@ export class HttpClient {
 
   async close(): Promise<void> {
     // No owned resources to release.
+    this.status.set('closed');
   }
 
   // ---- batch processing helpers ---------------------------------------------
   /**
    * Process a batch with a global timeout. If there are no relevant subscribers,
-   * completes immediately. Any failure or timeout rejects.
+   * completes immediately. Resolves with the ACK payload; failed or unfinished
+   * events are left out of `okIndices` so only they get redelivered.
    */
-  private async processBatchWithTimeout(batch: OutboxStreamBatchPayload): Promise<void> {
-    const work = this.dispatchBatch(batch);
-    await this.withTimeout(work, this.processTimeoutMs);
+  private async processBatchWithTimeout(
+    batch: OutboxStreamBatchPayload,
+    traceparent?: string
+  ): Promise<OutboxStreamAckPayload> {
+    const ack = await this.dispatcher.dispatch(batch.events ?? [], this.processTimeoutMs, traceparent);
+    if (!ack.ok) {
+      this.logger.warn('batch partially ACKed', { size: batch.events?.length ?? 0, okIndices: ack.okIndices });
+    }
+    return ack;
   }
 
   /**
    * Route events by type with **sequential per-type processing** and
    * **parallel across types**. Types without a subscriber are ignored.
+   * No timeout is applied here; resolves with the ACK payload.
    */
-  async dispatchBatch(batch: OutboxStreamBatchPayload) {
-    const wires = batch.events ?? [];
-    if (!wires.length) return;
-
-    // 1) Build index lists per subscribed type (cheap routing, no object copies)
-    const perTypeIdx = new Map<string, number[]>();
-    for (let i = 0; i < wires.length; i++) {
-      const w = wires[i]!;
-      const handler = this.subs.get(w.eventType);
-      if (!handler) continue; // no-op types do not block
-      let arr = perTypeIdx.get(w.eventType);
-      if (!arr) perTypeIdx.set(w.eventType, (arr = []));
-      arr.push(i);
-    }
-
-    if (perTypeIdx.size === 0) return; // no relevant subscribers → immediate ACK
-
-    // 2) For each type create ONE task that processes its events sequentially
-    const tasks: Promise<void>[] = [];
-    for (const [type, idxs] of perTypeIdx) {
-      const handler = this.subs.get(type)!; // exists by construction
-      tasks.push(
-        (async () => {
-          for (let k = 0; k < idxs.length; k++) {
-            const wire = wires[idxs[k]!]!;
-            const evt = createDomainEventFromWire(wire);
-            await Promise.resolve().then(() => handler(evt)); // sequence preserved
-          }
-        })()
-      );
-    }
-
-    // 3) Await all types in parallel; any failure rejects the batch
-    await Promise.all(tasks);
+  async dispatchBatch(batch: OutboxStreamBatchPayload): Promise<OutboxStreamAckPayload> {
+    return this.dispatcher.dispatch(batch.events ?? []);
   }
 
   // ---- helpers ----
+  /** Pong reply to an accepted ping; a ping turns `state` 'online'. */
+  private async pong(ping: Message): Promise<Message> {
+    this.status.alive();
+    const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+    return { action: Actions.Pong, timestamp: Date.now(), payload: await pongPayload(ping, auth, this.logger) };
+  }
+  /** Signature, timestamp window and replay check of a webhook or ping body (when `signature` is set). */
+  private async verifySigned(
+    headers: IncomingHttpHeaders,
+    rawBody: string,
+    requestId?: string
+  ): Promise<WebhookRejection | undefined> {
+    return this.guard.verifySignature(headers, rawBody) ?? (await this.guard.checkReplay(headers, requestId));
+  }
+  private rejectExpress(res: express.Response, code: number, text: string) {
+    this.logger.warn('webhook request rejected', { status: code, reason: text });
+    return res.status(code).send(text);
+  }
   private replyJson(res: ServerResponse, code: number, obj: unknown) {
     const s = JSON.stringify(obj);
     res.writeHead(code, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(s) });
     res.end(s);
   }
-  private replyText(res: ServerResponse, code: number, text: string) {
-    res.writeHead(code, { 'Content-Type': 'text/plain', 'Content-Length': Buffer.byteLength(text) });
+  private replyText(res: ServerResponse, code: number, text: string, contentType = 'text/plain') {
+    if (code >= 400 && code < 500) this.logger.warn('webhook request rejected', { status: code, reason: text });
+    res.writeHead(code, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(text) });
     res.end(text);
   }
-
-  private withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const t = setTimeout(() => reject(new Error('batch processing timeout')), ms);
-      p.then(
-        (v) => {
-          clearTimeout(t);
-          resolve(v);
-        },
-        (e) => {
-          clearTimeout(t);
-          reject(e);
-        }
-      );
-    });
-  }
 }
 
 // ---- tiny utils --------------------------------------------------------------
+function parseMessage(body: string): Message | undefined {
+  try {
+    return JSON.parse(body || '{}');
+  } catch {
+    return undefined;
+  }
+}
+function headerValue(v: string | string[] | undefined): string | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
 function safePathname(u?: string | null) {
   try {
     return new URL(u ?? '/', 'http://local').pathname;
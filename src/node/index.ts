@@ -1 +1,3 @@
 export * from './client';
+export * from './file-dedup-store';
+export * from './webhook-auth';
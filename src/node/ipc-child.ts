@@ -1,18 +1,69 @@
 import { randomUUID } from 'node:crypto';
 import type {
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  CheckpointOptions,
+  DeadLetterOptions,
+  DedupStore,
+  HandlerStrategy,
+  InboundMiddleware,
   Message,
   OutboxStreamBatchPayload,
   OutboxStreamAckPayload,
   QueryRequestPayload,
   QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  onAbort,
+  toQueryOptions,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  answerPing,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  InvalidResponseError,
 } from '../core';
-import { Actions, createDomainEventFromWire } from '../core';
 
 export type IpcChildClientOptions = {
-  /** If set, included as { password } in Pong on app-level Ping. */
-  pongPassword?: string;
+  /** If set, included as { password } in Pong on app-level Ping. A provider is called for every Pong. */
+  pongPassword?: Credential;
+  /** 'challenge': answer the Ping nonce with an HMAC over nonce and `clientId` instead of the password. Default: 'password'. */
+  pongAuth?: PongAuthMode;
+  /** Bound into the 'challenge' proof. */
+  clientId?: string;
   /** Processing timeout for a batch before replying with ACK. Default: 3000 ms. */
   processTimeoutMs?: number;
+  /** Several handlers of one event type: 'sequential' in registration order (default) or 'parallel'. */
+  handlerStrategy?: HandlerStrategy;
+  /** Send 'query.cancel' with the query's correlationId when it is aborted. Default: false. */
+  queryCancelNotice?: boolean;
+  /** 'online' falls back to 'open' without a ping/pong for this long. Default: 15000 ms; 0 = never. */
+  onlineTimeoutMs?: number;
+  /** Dead-letter events whose handler keeps throwing, then ACK them. Disabled by default. */
+  deadLetter?: DeadLetterOptions;
+  /** Skip (and ACK) events already handled, e.g. `new InMemoryDedupStore()`. */
+  dedup?: DedupStore;
+  /** Sink for the built-in transport metrics, e.g. a `MetricsRegistry`. */
+  metrics?: MetricsSink;
+  /** Spans for queries, batches and handlers, with W3C traceparent propagation. No-op by default. */
+  tracer?: Tracer;
+  /** pino/console-compatible structured logger; tokens and pong passwords are redacted. Silent by default. */
+  logger?: Logger;
+  /** Track eventVersion per modelName and backfill gaps via FetchEventsQuery. Disabled by default. */
+  checkpoints?: CheckpointOptions;
 };
 
 function assertIpcChildRuntime() {
@@ -26,48 +77,113 @@ function assertIpcChildRuntime() {
  * IpcChildClient
  * -----------------------------------------------------------------------------
  * Runs inside a forked child process (process.send / 'message').
- * - Replies to Ping with Pong (optionally with password).
- * - Accepts Outbox batches and sends ACK after processing.
+ * - Replies to Ping with Pong (optionally with password, or an HMAC proof in 'challenge' mode).
+ * - Accepts Outbox batches and sends ACK after processing (`okIndices` = events done in time).
  * - Supports parallel queries using correlationId mapping.
  * - IMPORTANT: For IPC we include BOTH correlationId and requestId in outgoing QueryRequest.
  */
 export class IpcChildClient {
-  private readonly pongPassword?: string;
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
+  private readonly clientId?: string;
   private readonly processTimeoutMs: number;
+  private readonly queryCancelNotice: boolean;
 
-  // One handler per event type
-  private subs = new Map<string, (evt: any) => unknown | Promise<unknown>>();
+  // Handlers per subscription key (type, glob or model)
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
 
   // correlationId → resolver (parallel queries allowed)
-  private pendingQueries = new Map<string, { resolve: (v: any) => void; reject: (e: any) => void; timer: any }>();
+  private pendingQueries = new Map<
+    string,
+    { name: string; resolve: (v: any) => void; reject: (e: any) => void; timer: any }
+  >();
 
-  // exact handler ref to detach
+  // exact handler refs to detach
   private processMessageHandler!: (raw: unknown) => void;
+  private disconnectHandler = () => {
+    this.logger.warn('parent disconnected');
+    this.failPending();
+    this.status.set('closed', { error: new Error('[ipc-child] parent disconnected') });
+  };
 
   constructor(opts: IpcChildClientOptions = {}) {
     assertIpcChildRuntime();
-    this.pongPassword = opts.pongPassword;
+    this.pongPassword = new CredentialSource(opts.pongPassword);
+    this.pongAuth = opts.pongAuth ?? 'password';
+    this.clientId = opts.clientId;
     this.processTimeoutMs = Math.max(1, opts.processTimeoutMs ?? 3000);
+    this.queryCancelNotice = !!opts.queryCancelNotice;
+    this.status = new ConnectionStatus('open', { onlineTimeoutMs: opts.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts.metrics, 'ipc-child');
+    this.tracer = new TransportTracer(opts.tracer, 'ipc-child');
+    this.logger = new TransportLogger(opts.logger, 'ipc-child', () => this.pongPassword.known());
+    this.dispatcher = new EventDispatcher({
+      tag: '[ipc-child]',
+      transport: 'ipc-child',
+      handlerStrategy: opts.handlerStrategy,
+      deadLetter: opts.deadLetter,
+      dedup: opts.dedup,
+      checkpoints: opts.checkpoints,
+      query: (name, dto) => this.query(name, dto),
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
 
     this.processMessageHandler = this.onProcessMessage.bind(this);
     (process as any).on('message', this.processMessageHandler);
+    (process as any).once('disconnect', this.disconnectHandler);
   }
 
   // ---- subscriptions --------------------------------------------------------
   subscribe<T = any>(eventType: string, handler: (evt: T) => unknown | Promise<unknown>) {
-    if (this.subs.has(eventType)) throw new Error(`[ipc-child] duplicate subscription for type "${eventType}"`);
-    this.subs.set(eventType, handler as any);
-    return () => {
-      const cur = this.subs.get(eventType);
-      if (cur === handler) this.subs.delete(eventType);
-    };
+    return this.dispatcher.subscribe<T>(eventType, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
   getSubscriptionCount(eventType: string): number {
-    return this.subs.has(eventType) ? 1 : 0;
+    return this.dispatcher.count(eventType);
+  }
+
+  // ---- connection state ------------------------------------------------------
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
   }
 
   // ---- query (child -> parent server) --------------------------------------
-  async query<TReq = any, TRes = any>(name: string, dto?: TReq, timeoutMs = 5000): Promise<TRes> {
+  /** `opts`: timeout in ms or `{ timeoutMs, signal }`; aborting rejects with AbortError. */
+  async query<TReq = any, TRes = any>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = any, TRes = any>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs = 5000, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[ipc-child]', signal);
+    if ((process as any).connected === false)
+      throw new TransportNotConnectedError('[ipc-child]', { transport: 'ipc-child', query: name });
     const correlationId = randomUUID();
     const requestId = randomUUID();
 
@@ -77,161 +193,165 @@ export class IpcChildClient {
       requestId,
       timestamp: Date.now(),
       payload: { name, dto },
+      traceparent,
+      headers,
     } as any;
 
     const p = new Promise<TRes>((resolve, reject) => {
       const timer = setTimeout(
         () => {
           this.pendingQueries.delete(correlationId);
-          reject(new Error('[ipc-child] query timeout'));
+          reject(new QueryTimeoutError('[ipc-child]', { transport: 'ipc-child', query: name, timeoutMs }));
         },
         Math.max(1, timeoutMs)
       );
-      this.pendingQueries.set(correlationId, { resolve, reject, timer });
+      this.pendingQueries.set(correlationId, { name, resolve, reject, timer });
     });
 
+    // the channel may fail at once (throws) or later (callback), e.g. when the other side just exited
+    const failSend = (e: unknown) => {
+      const pending = this.pendingQueries.get(correlationId);
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      this.pendingQueries.delete(correlationId);
+      pending.reject(new TransportNotConnectedError('[ipc-child]', { transport: 'ipc-child', query: name, cause: e }));
+    };
     try {
-      (process as any).send?.(req as any);
+      (process as any).send?.(req as any, (err: Error | null) => err && failSend(err));
     } catch (e: any) {
-      const pending = this.pendingQueries.get(correlationId);
-      if (pending) {
-        clearTimeout(pending.timer);
-        this.pendingQueries.delete(correlationId);
-      }
-      throw e;
+      failSend(e);
     }
 
-    return p;
+    const offAbort = onAbort(signal, () => {
+      const pending = this.pendingQueries.get(correlationId);
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      this.pendingQueries.delete(correlationId);
+      pending.reject(abortError('[ipc-child]', signal!));
+      if (!this.queryCancelNotice) return;
+      this.send({ action: Actions.QueryCancel, correlationId, requestId, timestamp: Date.now() });
+    });
+    try {
+      return await p;
+    } finally {
+      offAbort();
+    }
   }
 
-  /* eslint-disable no-empty */
   async close(): Promise<void> {
     try {
       (process as any).off?.('message', this.processMessageHandler);
-    } catch {}
+      (process as any).off?.('disconnect', this.disconnectHandler);
+    } catch (e) {
+      this.logger.debug('listener removal failed', { error: e });
+    }
+    this.failPending();
+    this.dispatcher.clear();
+    this.status.set('closed');
+  }
+
+  /** Reject the queries still waiting for a response: no response can arrive any more. */
+  private failPending(): void {
     for (const [, p] of this.pendingQueries) {
       clearTimeout(p.timer);
+      p.reject(new TransportNotConnectedError('[ipc-child]', { transport: 'ipc-child', query: p.name }));
     }
     this.pendingQueries.clear();
-    this.subs.clear();
   }
-  /* eslint-enable no-empty */
 
-  /* eslint-disable no-empty */
+  /** Fire-and-forget message; a failed send is logged, the other side notices the missing reply. */
+  private send(msg: Message): void {
+    try {
+      (process as any).send?.(msg as any);
+    } catch (e) {
+      this.logger.warn('send failed', { action: msg.action, correlationId: msg.correlationId, error: e });
+    }
+  }
+
   // ---- inbound routing (parent -> child) -----------------------------------
   private async onProcessMessage(raw: unknown) {
     const msg = this.normalize(raw);
-    if (!msg?.action) return;
+    if (!msg?.action) {
+      this.logger.warn('malformed message dropped', { type: typeof raw });
+      return;
+    }
 
     switch (msg.action) {
       case Actions.Ping: {
-        const pong: Message = {
-          action: Actions.Pong,
-          correlationId: msg.correlationId || randomUUID(),
-          requestId: randomUUID(),
-          timestamp: Date.now(),
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-        } as any;
-        try {
-          (process as any).send?.(pong as any);
-        } catch {}
+        this.status.alive();
+        const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+        answerPing(
+          msg,
+          auth,
+          (payload) =>
+            this.send({
+              action: Actions.Pong,
+              correlationId: msg.correlationId || randomUUID(),
+              requestId: randomUUID(),
+              timestamp: Date.now(),
+              payload,
+            }),
+          this.logger
+        );
         return;
       }
 
       case Actions.OutboxStreamBatch: {
         const p = msg.payload as OutboxStreamBatchPayload;
-        try {
-          await this.processBatchWithTimeout(p);
-          const ack: Message<OutboxStreamAckPayload> = {
-            action: Actions.OutboxStreamAck,
-            correlationId: msg.correlationId || randomUUID(),
-            requestId: randomUUID(),
-            timestamp: Date.now(),
-            payload: { ok: true, okIndices: (p.events ?? []).map((_e, i) => i) },
-          } as any;
-          (process as any).send?.(ack as any);
-        } catch {
-          // No ACK on failure — server will retry
+        const ack: Message<OutboxStreamAckPayload> = {
+          action: Actions.OutboxStreamAck,
+          correlationId: msg.correlationId || randomUUID(),
+          requestId: randomUUID(),
+          timestamp: Date.now(),
+          payload: await this.processBatchWithTimeout(p, msg.traceparent),
+        } as any;
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            correlationId: msg.correlationId,
+            size: p?.events?.length ?? 0,
+            okIndices: ack.payload!.okIndices,
+          });
         }
+        this.send(ack);
         return;
       }
 
       case Actions.QueryResponse: {
         const id = msg.correlationId;
-        if (!id) return;
-        const pending = this.pendingQueries.get(id);
-        if (!pending) return;
+        const pending = id ? this.pendingQueries.get(id) : undefined;
+        if (!id || !pending) {
+          this.logger.debug('query response without a pending query dropped', { correlationId: id });
+          return;
+        }
         this.pendingQueries.delete(id);
         clearTimeout(pending.timer);
 
         const payload = msg.payload as QueryResponsePayload as any;
-        if (!payload || typeof payload.ok !== 'boolean') pending.reject(new Error('invalid query response'));
-        else if (payload.ok === false) pending.reject(new Error(String(payload.err ?? 'query failed')));
+        const ctx = { transport: 'ipc-child', query: pending.name };
+        if (!payload || typeof payload.ok !== 'boolean') pending.reject(new InvalidResponseError('[ipc-child]', ctx));
+        else if (payload.ok === false)
+          pending.reject(new QueryRemoteError('[ipc-child]', { ...ctx, err: payload.err }));
         else pending.resolve(payload.data);
         return;
       }
 
       default:
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         return;
     }
   }
-  /* eslint-enable no-empty */
 
   // ---- batch processing -----------------------------------------------------
-  private async processBatchWithTimeout(batch: OutboxStreamBatchPayload): Promise<void> {
-    const work = this.dispatchBatch(batch);
-    await this.withTimeout(work, this.processTimeoutMs);
-  }
-
-  private async dispatchBatch(batch: OutboxStreamBatchPayload) {
-    const wires = batch.events ?? [];
-    if (!wires.length) return;
-
-    const perTypeIdx = new Map<string, number[]>();
-    for (let i = 0; i < wires.length; i++) {
-      const w = wires[i]!;
-      if (!this.subs.has(w.eventType)) continue;
-      let arr = perTypeIdx.get(w.eventType);
-      if (!arr) perTypeIdx.set(w.eventType, (arr = []));
-      arr.push(i);
-    }
-
-    if (perTypeIdx.size === 0) return;
-
-    const tasks: Promise<void>[] = [];
-    for (const [type, idxs] of perTypeIdx) {
-      const handler = this.subs.get(type)!;
-      tasks.push(
-        (async () => {
-          for (let k = 0; k < idxs.length; k++) {
-            const wire = wires[idxs[k]!]!;
-            const evt = createDomainEventFromWire(wire);
-            await Promise.resolve().then(() => handler(evt));
-          }
-        })()
-      );
-    }
-
-    await Promise.all(tasks);
+  /** Failed or unfinished events are left out of `okIndices`; the server redelivers only those. */
+  private async processBatchWithTimeout(
+    batch: OutboxStreamBatchPayload,
+    traceparent?: string
+  ): Promise<OutboxStreamAckPayload> {
+    return this.dispatcher.dispatch(batch?.events ?? [], this.processTimeoutMs, traceparent);
   }
 
   // ---- utils ----------------------------------------------------------------
-  private withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const t = setTimeout(() => reject(new Error('batch processing timeout')), ms);
-      p.then(
-        (v) => {
-          clearTimeout(t);
-          resolve(v);
-        },
-        (e) => {
-          clearTimeout(t);
-          reject(e);
-        }
-      );
-    });
-  }
-
   private normalize(raw: unknown): Message | null {
     if (!raw) return null;
     if (typeof raw === 'string') {
@@ -0,0 +1,191 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import { BlockList, isIP } from 'node:net';
+import type { Credential } from '../core';
+import { CredentialSource } from '../core';
+
+/** `sha256=<hex>` HMAC of `${timestamp}.${body}`. */
+export const SIGNATURE_HEADER = 'x-transport-signature';
+/** Sender clock in ms since the epoch; part of the signed string. */
+export const TIMESTAMP_HEADER = 'x-transport-timestamp';
+
+/**
+ * Remembers accepted requests for replay protection.
+ * Implementations may be sync or async (Redis `SET NX PX`, ...).
+ */
+export interface ReplayCache {
+  /** Remember `key` until `expiresAt` (ms since the epoch); false when it is already known. */
+  add(key: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export type WebhookSignatureOptions = {
+  /** Shared HMAC-SHA256 key, also configured on the sending server. */
+  secret: string;
+  /** Largest accepted difference between the signed timestamp and local time. Default: 300_000 ms. */
+  toleranceMs?: number;
+  /** Where accepted requests are remembered. Default: `new InMemoryReplayCache()`. */
+  replayCache?: ReplayCache;
+};
+
+export type WebhookAuthOptions = {
+  /** A provider is called for every request; its current and previous values are accepted. */
+  token?: Credential | CredentialSource;
+  signature?: WebhookSignatureOptions;
+  allowedIps?: string[];
+};
+
+/** Why a request was refused: HTTP status and reply text. */
+export type WebhookRejection = { status: number; reason: string };
+
+/**
+ * InMemoryReplayCache
+ * -----------------------------------------------------------------------------
+ * Keys with their expiry in arrival order. Expired keys at the front are pruned on every `add`;
+ * beyond `maxEntries` the oldest key is forgotten early.
+ */
+export class InMemoryReplayCache implements ReplayCache {
+  private readonly max: number;
+  private keys = new Map<string, number>();
+
+  constructor(opts?: { maxEntries?: number }) {
+    this.max = Math.max(1, opts?.maxEntries ?? 100_000);
+  }
+
+  add(key: string, expiresAt: number): boolean {
+    const now = Date.now();
+    for (const [k, exp] of this.keys) {
+      if (exp > now) break;
+      this.keys.delete(k);
+    }
+    const known = this.keys.get(key);
+    if (known !== undefined && known > now) return false;
+    this.keys.delete(key);
+    this.keys.set(key, expiresAt);
+    while (this.keys.size > this.max) {
+      const oldest = this.keys.keys().next().value;
+      if (oldest === undefined) break;
+      this.keys.delete(oldest);
+    }
+    return true;
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
+
+/** Signature header value for a webhook request; what the sending side puts in `SIGNATURE_HEADER`. */
+export function signWebhook(secret: string, timestamp: number | string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** Constant-time string comparison; inputs are hashed first so their lengths do not leak either. */
+export function safeEqual(a: string, b: string): boolean {
+  const da = createHash('sha256').update(a).digest();
+  const db = createHash('sha256').update(b).digest();
+  return timingSafeEqual(da, db);
+}
+
+/**
+ * WebhookGuard
+ * -----------------------------------------------------------------------------
+ * Authentication of inbound webhook, ping and metrics requests of HttpClient:
+ * - `allowedIps`: exact addresses or CIDR ranges ('10.0.0.0/8', 'fd00::/8'); IPv4-mapped IPv6 matches IPv4 rules.
+ * - `token`: `x-transport-token`, compared in constant time. With a provider, the value it returned
+ *   before the last rotation is still accepted, so senders can switch over without failed requests.
+ * - `signature`: HMAC-SHA256 over `${timestamp}.${body}` in `SIGNATURE_HEADER`, a timestamp within
+ *   `toleranceMs` of local time, and each request accepted once. A request is identified by its
+ *   timestamp plus the message `requestId`, or plus its signature when the message has none.
+ */
+export class WebhookGuard {
+  private readonly token: CredentialSource;
+  private readonly secret?: string;
+  private readonly toleranceMs: number;
+  private readonly replayCache: ReplayCache;
+  private readonly allowed?: BlockList;
+
+  constructor(opts: WebhookAuthOptions) {
+    this.token = opts.token instanceof CredentialSource ? opts.token : new CredentialSource(opts.token);
+    this.secret = opts.signature?.secret;
+    if (opts.signature && !this.secret) throw new Error('[client-http] inbound.signature.secret is required');
+    this.toleranceMs = Math.max(1, opts.signature?.toleranceMs ?? 300_000);
+    this.replayCache = opts.signature?.replayCache ?? new InMemoryReplayCache();
+    if (opts.allowedIps) this.allowed = blockListOf(opts.allowedIps);
+  }
+
+  /** Whether request bodies must carry a valid signature. */
+  get signed(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Checks that need no body: IP allowlist, then token. Synchronous unless the token comes
+   * from a provider; rejects when the provider throws.
+   */
+  checkRequest(
+    ip: string | undefined,
+    headers: IncomingHttpHeaders
+  ): WebhookRejection | undefined | Promise<WebhookRejection | undefined> {
+    if (this.allowed && !ipAllowed(this.allowed, ip)) return { status: 403, reason: 'forbidden' };
+    if (!this.token.configured) return undefined;
+    const token = header(headers['x-transport-token']) ?? '';
+    if (!this.token.dynamic) return this.tokenRejection(token);
+    return this.token.get().then(() => this.tokenRejection(token));
+  }
+
+  /** Signature and timestamp window over the raw body. A no-op without `signature`. */
+  verifySignature(headers: IncomingHttpHeaders, rawBody: string): WebhookRejection | undefined {
+    if (!this.secret) return undefined;
+    const timestamp = header(headers[TIMESTAMP_HEADER]) ?? '';
+    const signature = header(headers[SIGNATURE_HEADER]) ?? '';
+    if (!/^\d+$/.test(timestamp) || !signature) return { status: 401, reason: 'missing signature' };
+    if (Math.abs(Date.now() - Number(timestamp)) > this.toleranceMs) return { status: 401, reason: 'stale timestamp' };
+    if (!safeEqual(signature, signWebhook(this.secret, timestamp, rawBody))) {
+      return { status: 401, reason: 'invalid signature' };
+    }
+    return undefined;
+  }
+
+  /** Record a verified request; rejects one that was accepted before. A no-op without `signature`. */
+  async checkReplay(headers: IncomingHttpHeaders, requestId?: string): Promise<WebhookRejection | undefined> {
+    if (!this.secret) return undefined;
+    const timestamp = header(headers[TIMESTAMP_HEADER]);
+    const id = requestId ?? header(headers[SIGNATURE_HEADER]);
+    const fresh = await this.replayCache.add(`${timestamp}:${id}`, Number(timestamp) + this.toleranceMs);
+    return fresh ? undefined : { status: 401, reason: 'replayed request' };
+  }
+
+  private tokenRejection(token: string): WebhookRejection | undefined {
+    // compare with every known value, so the time taken does not tell which one matched
+    let ok = false;
+    for (const known of this.token.known()) if (known && safeEqual(token, known)) ok = true;
+    return ok ? undefined : { status: 401, reason: 'unauthorized' };
+  }
+}
+
+function header(v: string | string[] | undefined): string | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function blockListOf(entries: string[]): BlockList {
+  const list = new BlockList();
+  for (const entry of entries) {
+    const [address = '', prefix] = entry.trim().split('/');
+    if (!isIP(address) || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+      throw new Error(`[client-http] invalid inbound.allowedIps entry: ${entry}`);
+    }
+    const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) list.addAddress(address, family);
+    else list.addSubnet(address, Number(prefix), family);
+  }
+  return list;
+}
+
+function ipAllowed(list: BlockList, ip: string | undefined): boolean {
+  if (!ip) return false;
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  const address = mapped ? mapped[1]! : ip;
+  const family = isIP(address);
+  if (!family) return false;
+  return list.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
@@ -1,16 +1,70 @@
 /* eslint-disable no-restricted-syntax */
 import WebSocket from 'ws';
 /* eslint-enable no-restricted-syntax */
-import { Actions, createDomainEventFromWire, utf8Len, TRANSPORT_OVERHEAD_WIRE } from '../core';
-import type { Message, OutboxStreamBatchPayload, OutboxStreamAckPayload, QueryResponsePayload } from '../core';
+import { randomUUID } from 'node:crypto';
+import {
+  Actions,
+  EventDispatcher,
+  ConnectionStatus,
+  abortError,
+  onAbort,
+  toQueryOptions,
+  utf8Len,
+  TRANSPORT_OVERHEAD_WIRE,
+  TransportMetrics,
+  TransportTracer,
+  TransportLogger,
+  TransportNotConnectedError,
+  answerPing,
+  CredentialSource,
+  QueryTimeoutError,
+  QueryRemoteError,
+  PayloadTooLargeError,
+  InvalidResponseError,
+  TooManyQueriesInFlightError,
+  CredentialUnavailableError,
+} from '../core';
+import type {
+  CheckpointOptions,
+  ConnectionStateEvent,
+  ConnectionStateListener,
+  DeadLetterOptions,
+  DedupStore,
+  HandlerStrategy,
+  InboundMiddleware,
+  Message,
+  OutboxStreamBatchPayload,
+  OutboxStreamAckPayload,
+  QueryResponsePayload,
+  TransportQueryOptions,
+  MetricsSink,
+  Tracer,
+  Logger,
+  PongAuthMode,
+  Credential,
+} from '../core';
 
 export type WsClientOptions = {
   url: string; // e.g. wss://server:8443/ws
-  token?: string; // sent in Sec-WebSocket-Protocol (first protocol)
+  token?: Credential; // sent in Sec-WebSocket-Protocol (first protocol); a provider is called on every (re)connect
   clientId?: string; // sent in Sec-WebSocket-Protocol (second protocol)
-  pongPassword?: string; // included in Pong payload when replying to app-level Ping
+  pongPassword?: Credential; // included in Pong payload when replying to app-level Ping; a provider is called per Pong
+  pongAuth?: PongAuthMode; // 'challenge': answer the Ping nonce with an HMAC over nonce and clientId instead (default 'password')
   maxWireBytes?: number; // default 10 MiB — must match server transportMaxFrameBytes
   processTimeoutMs?: number; // default 3000
+  handlerStrategy?: HandlerStrategy; // several handlers per type: 'sequential' (default) | 'parallel'
+  queryCancelNotice?: boolean; // send 'query.cancel' to the server when a query is aborted
+  onlineTimeoutMs?: number; // 'online' falls back to 'open' without a ping/pong for this long (default 15000 ms; 0 = never)
+  maxInFlightQueries?: number; // default unlimited — cap on queries awaiting a response
+  queueQueries?: boolean; // default false — over the cap, wait in FIFO order instead of throwing
+  heartbeatTimeoutMs?: number; // managed mode: terminate and reconnect when no frame arrives this long (default off)
+  keepaliveIntervalMs?: number; // managed mode: send protocol-level pings this often (default off)
+  deadLetter?: DeadLetterOptions; // dead-letter + ACK events whose handler keeps throwing
+  dedup?: DedupStore; // skip (and ACK) events already handled
+  metrics?: MetricsSink; // sink for the built-in transport metrics, e.g. a MetricsRegistry
+  tracer?: Tracer; // spans for queries, batches and handlers; propagates W3C traceparent
+  logger?: Logger; // pino/console-compatible; secrets are redacted
+  checkpoints?: CheckpointOptions; // per-model eventVersion tracking with gap backfill
   /**
    * Optional factory for creating WebSocket instances in managed mode.
    * If provided, connect() and internal reconnects will use this factory.
@@ -22,40 +76,83 @@ export type WsClientOptions = {
  * WsClient
  * -----------------------------------------------------------------------------
  * - Managed mode (connect): creates and owns a socket; auto-reconnects forever with backoff.
+ *   Optional heartbeat watchdog (terminates a silent socket) and protocol-level keepalive pings.
  * - Attached mode (attach): uses an external socket; NO internal reconnects.
- * - App-level Ping/Pong: replies with Pong (optionally with password) → server turns online.
- * - Outbox batches: per-type sequential, cross-type parallel; one ACK on success.
- * - Query: single-flight (no parallel queries); QueryRequest → QueryResponse.
+ * - Credentials may be providers: the token is fetched again for every (re)connect, so it can rotate
+ *   without recreating the client or losing subscriptions.
+ * - App-level Ping/Pong: replies with Pong (optionally with password, or an HMAC proof in 'challenge' mode)
+ *   → server turns online.
+ * - Outbox batches: per-key sequential, cross-key parallel (type, glob or model); one ACK listing the events that
+ *   completed within `processTimeoutMs` (`ok: false` when partial).
+ * - Query: parallel queries over one socket, matched by correlationId (the server must echo it);
+ *   optional in-flight cap with a FIFO queue; QueryRequest → QueryResponse.
  */
 export class WsClient {
   private readonly url: string;
-  private token?: string;
+  private token: CredentialSource;
   private clientId?: string;
-  private readonly pongPassword?: string;
+  private readonly pongPassword: CredentialSource;
+  private readonly pongAuth: PongAuthMode;
   private readonly maxBytes: number;
   private readonly processTimeoutMs: number;
+  private readonly queryCancelNotice: boolean;
+  private readonly maxInFlight: number;
+  private readonly queueQueries: boolean;
   private readonly socketFactory?: () => WebSocket;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly keepaliveIntervalMs: number;
 
   private ws: WebSocket | null = null;
   private ownsSocket = false; // true when we created the socket (managed mode)
   private reconnecting = false; // internal guard against concurrent reconnect loops
   private connAttempts = 0; // increases while reconnecting in managed mode
-
-  // subscriptions: one handler per event type
-  private subs = new Map<string, (evt: any) => unknown | Promise<unknown>>();
-
-  // single-flight query waiting
-  private queryInFlight: { resolve: (v: any) => void; reject: (e: any) => void } | null = null;
+  private lastFrameAt = 0; // any inbound frame, including protocol pongs
+  private watchdogTimer: any;
+  private keepaliveTimer: any;
+
+  // subscriptions
+  private readonly dispatcher: EventDispatcher;
+  private readonly metrics: TransportMetrics;
+  private readonly tracer: TransportTracer;
+  private readonly logger: TransportLogger;
+  private readonly status: ConnectionStatus;
+
+  // correlationId → resolver
+  private pendingQueries = new Map<string, { name: string; resolve: (v: any) => void; reject: (e: any) => void }>();
+  // queries waiting for a free slot when `maxInFlightQueries` is reached
+  private queryQueue: Array<{ name: string; start: () => void; fail: (e: Error) => void }> = [];
 
   constructor(opts: WsClientOptions) {
     if (!opts?.url) throw new Error('[ws-client] url is required');
     this.url = opts.url;
-    this.token = opts.token;
+    this.token = new CredentialSource(opts.token);
     this.clientId = opts.clientId;
-    this.pongPassword = opts.pongPassword;
+    this.pongPassword = new CredentialSource(opts.pongPassword);
+    this.pongAuth = opts.pongAuth ?? 'password';
     this.maxBytes = Math.max(1024, opts.maxWireBytes ?? 10 * 1024 * 1024);
     this.processTimeoutMs = Math.max(1, opts.processTimeoutMs ?? 3000);
+    this.queryCancelNotice = !!opts.queryCancelNotice;
+    this.maxInFlight = Math.max(1, opts.maxInFlightQueries ?? Infinity);
+    this.queueQueries = !!opts.queueQueries;
     this.socketFactory = opts.socketFactory;
+    this.heartbeatTimeoutMs = Math.max(0, opts.heartbeatTimeoutMs ?? 0);
+    this.keepaliveIntervalMs = Math.max(0, opts.keepaliveIntervalMs ?? 0);
+    this.status = new ConnectionStatus('closed', { onlineTimeoutMs: opts.onlineTimeoutMs });
+    this.metrics = new TransportMetrics(opts.metrics, 'ws');
+    this.tracer = new TransportTracer(opts.tracer, 'ws');
+    this.logger = new TransportLogger(opts.logger, 'ws', () => [...this.token.known(), ...this.pongPassword.known()]);
+    this.dispatcher = new EventDispatcher({
+      tag: '[ws-client]',
+      transport: 'ws',
+      handlerStrategy: opts.handlerStrategy,
+      deadLetter: opts.deadLetter,
+      dedup: opts.dedup,
+      checkpoints: opts.checkpoints,
+      query: (name, dto) => this.query(name, dto),
+      metrics: this.metrics,
+      tracer: this.tracer,
+      logger: this.logger,
+    });
   }
 
   // ---- lifecycle ------------------------------------------------------------
@@ -67,10 +164,12 @@ export class WsClient {
    *  - If the first attempt succeeds, resolves after 'open'.
    */
   async connect(): Promise<void> {
+    this.status.set('connecting');
     try {
       await this.openOnce();
-    } catch {
+    } catch (e) {
       // Soft start: start background infinite reconnects and resolve immediately.
+      this.logger.warn('connect failed, reconnecting in background', { url: this.url, error: e });
       this.startReconnectLoop();
     }
   }
@@ -80,257 +179,286 @@ export class WsClient {
    * Responsibility for reconnecting stays with the creator of the socket.
    * Optional creds are stored only for potential future switch to managed mode.
    */
-  attach(sock: WebSocket, creds?: { token?: string; clientId?: string }) {
-    if (creds?.token) this.token = creds.token;
+  attach(sock: WebSocket, creds?: { token?: Credential; clientId?: string }) {
+    if (creds?.token) this.token = new CredentialSource(creds.token);
     if (creds?.clientId) this.clientId = creds.clientId;
 
     this.ws = sock;
     this.ownsSocket = false; // external socket ownership
     this.bindSocket(sock);
+    if (sock.readyState === WebSocket.OPEN) this.status.set('open');
+    else sock.once('open', () => this.ws === sock && this.status.set('open'));
   }
 
-  /* eslint-disable no-empty */
   async close(): Promise<void> {
     this.reconnecting = false;
     try {
       this.ws?.close(1000, 'client close');
-    } catch {}
+    } catch (e) {
+      this.logger.debug('socket close failed', { error: e });
+    }
     this.ws = null;
+    this.stopLiveness();
+    this.status.set('closed');
+    const waiting = [...this.pendingQueries.values()]
+      .map(({ name, reject }) => ({ name, fail: reject }))
+      .concat(this.queryQueue);
+    this.pendingQueries.clear();
+    this.queryQueue = [];
+    for (const { name, fail } of waiting)
+      fail(new TransportNotConnectedError('[ws-client]', { transport: 'ws', query: name }));
+    this.logger.info('closed', { rejectedQueries: waiting.length });
   }
-  /* eslint-enable no-empty */
 
   // ---- subscriptions --------------------------------------------------------
   subscribe<T = any>(eventType: string, handler: (evt: T) => unknown | Promise<unknown>) {
-    if (this.subs.has(eventType)) throw new Error(`[ws-client] duplicate subscription for type "${eventType}"`);
-    this.subs.set(eventType, handler as any);
-    return () => {
-      const cur = this.subs.get(eventType);
-      if (cur === handler) this.subs.delete(eventType);
-    };
+    return this.dispatcher.subscribe<T>(eventType, handler);
+  }
+  /** Every event of `modelName`, whatever its type. */
+  subscribeModel<T = any>(modelName: string, handler: (evt: T) => unknown | Promise<unknown>): () => void {
+    return this.dispatcher.subscribeModel<T>(modelName, handler);
+  }
+  /** Middleware `(event, ctx, next)` around every handler call. Returns a remover. */
+  useInbound(mw: InboundMiddleware): () => void {
+    return this.dispatcher.use(mw);
   }
   getSubscriptionCount(eventType: string): number {
-    return this.subs.has(eventType) ? 1 : 0;
+    return this.dispatcher.count(eventType);
+  }
+
+  // ---- connection state ------------------------------------------------------
+  /** Listen for connection state changes. Returns a remover. */
+  on(event: 'state', listener: ConnectionStateListener): () => void {
+    return this.status.on(listener);
+  }
+  get state(): ConnectionStateEvent {
+    return this.status.snapshot;
   }
 
   // ---- query ---------------------------------------------------------------
   /**
-   * Single-flight query with one deadline for the whole operation.
-   * `timeoutMs` covers both sending and receiving a response.
-   * Default: 5000 ms.
+   * Query with one deadline for the whole operation, including time spent in the queue.
+   * `timeoutMs` covers queueing, sending and receiving a response. Default: 5000 ms.
+   * Aborting `signal` rejects with AbortError and frees the slot (or the queue position).
    */
-  async query<TReq = any, TRes = any>(name: string, dto?: TReq, timeoutMs = 5000): Promise<TRes> {
+  async query<TReq = any, TRes = any>(name: string, dto?: TReq, opts?: number | TransportQueryOptions): Promise<TRes> {
+    const o = toQueryOptions(opts);
+    return this.metrics.query(name, () =>
+      this.tracer.query(name, o.traceparent, (traceparent) =>
+        this.request<TReq, TRes>(name, dto, { ...o, traceparent })
+      )
+    );
+  }
+
+  private async request<TReq = any, TRes = any>(
+    name: string,
+    dto?: TReq,
+    opts?: number | TransportQueryOptions
+  ): Promise<TRes> {
+    const { timeoutMs = 5000, signal, traceparent, headers } = toQueryOptions(opts);
+    if (signal?.aborted) throw abortError('[ws-client]', signal);
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('[ws-client] not connected');
+      throw new TransportNotConnectedError('[ws-client]', { transport: 'ws', query: name });
     }
-    if (this.queryInFlight) {
-      throw new Error('[ws-client] query in flight');
+    const busy = this.pendingQueries.size >= this.maxInFlight || this.queryQueue.length > 0;
+    if (busy && !this.queueQueries) {
+      throw new TooManyQueriesInFlightError('[ws-client]', {
+        transport: 'ws',
+        query: name,
+        maxInFlight: this.maxInFlight,
+      });
     }
 
+    const correlationId = randomUUID();
+    const requestId = randomUUID();
     const payload: Message = {
       action: Actions.QueryRequest,
+      correlationId,
+      requestId,
       timestamp: Date.now(),
       payload: { name, dto },
+      traceparent,
+      headers,
     } as any;
 
     const s = JSON.stringify(payload);
-    if (utf8Len(s) + TRANSPORT_OVERHEAD_WIRE > this.maxBytes) {
-      throw new Error('[ws-client] query payload too large');
+    const bytes = utf8Len(s) + TRANSPORT_OVERHEAD_WIRE;
+    if (bytes > this.maxBytes) {
+      throw new PayloadTooLargeError('[ws-client]', { transport: 'ws', query: name, bytes, maxBytes: this.maxBytes });
     }
 
-    return this.withDeadline<TRes>(async (deadlineAt) => {
-      let resolveFn!: (v: TRes) => void;
-      let rejectFn!: (e: any) => void;
-      const waiter = new Promise<TRes>((resolve, reject) => {
-        resolveFn = resolve;
-        rejectFn = reject;
+    const deadlineAt = Date.now() + Math.max(1, timeoutMs);
+    return new Promise<TRes>((resolve, reject) => {
+      let settled = false;
+      const settle = (err: unknown, data?: TRes) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        offAbort();
+        const queued = this.queryQueue.findIndex((q) => q.start === start);
+        if (queued >= 0) this.queryQueue.splice(queued, 1);
+        if (this.pendingQueries.delete(correlationId)) this.drainQueryQueue();
+        if (err) reject(err);
+        else resolve(data as TRes);
+      };
+      const start = () => {
+        if (settled) return;
+        this.pendingQueries.set(correlationId, {
+          name,
+          resolve: (v) => settle(undefined, v),
+          reject: (e) => settle(e),
+        });
+        this.sendTextBeforeDeadline(s, deadlineAt, name).catch((e) => settle(e));
+      };
+
+      const timer = setTimeout(
+        () => settle(new QueryTimeoutError('[ws-client]', { transport: 'ws', query: name, timeoutMs })),
+        Math.max(1, timeoutMs)
+      );
+      const offAbort = onAbort(signal, () => {
+        const sent = this.pendingQueries.has(correlationId);
+        settle(abortError('[ws-client]', signal!));
+        if (sent) this.sendCancelNotice(correlationId, requestId);
       });
 
-      if (this.queryInFlight) throw new Error('[ws-client] query in flight');
-      this.queryInFlight = { resolve: resolveFn, reject: rejectFn };
+      if (busy) this.queryQueue.push({ name, start, fail: (e) => settle(e) });
+      else start();
+    });
+  }
 
-      try {
-        await this.sendTextBeforeDeadline(s, deadlineAt);
-      } catch (e) {
-        this.queryInFlight = null;
-        throw e;
-      }
+  /** Start queued queries while slots are free. */
+  private drainQueryQueue(): void {
+    while (this.queryQueue.length > 0 && this.pendingQueries.size < this.maxInFlight) {
+      this.queryQueue.shift()!.start();
+    }
+  }
+
+  private sendCancelNotice(correlationId: string, requestId: string): void {
+    if (!this.queryCancelNotice) return;
+    this.send({ action: Actions.QueryCancel, correlationId, requestId, timestamp: Date.now() });
+  }
 
-      return waiter;
-    }, timeoutMs);
+  /** Fire-and-forget frame; a failed send is logged, the server notices the missing reply. */
+  private send(msg: Message): void {
+    try {
+      this.ws?.send(JSON.stringify(msg));
+    } catch (e) {
+      this.logger.warn('send failed', { action: msg.action, correlationId: msg.correlationId, error: e });
+    }
   }
 
-  /* eslint-disable no-empty */
   // ---- inbound message routing --------------------------------------------
   private onMessage = async (text: string) => {
     let msg: Message | null = null;
     try {
       msg = JSON.parse(text);
-    } catch {
+    } catch (e) {
+      this.logger.warn('malformed frame dropped', { bytes: text.length, error: e });
+      return;
+    }
+    if (!msg || typeof (msg as any).action !== 'string') {
+      this.logger.warn('frame without action dropped', { bytes: text.length });
       return;
     }
-    if (!msg || typeof (msg as any).action !== 'string') return;
 
     switch (msg.action) {
       case Actions.Ping: {
-        const pong: Message = {
-          action: Actions.Pong,
-          timestamp: Date.now(),
-          payload: this.pongPassword ? { password: this.pongPassword } : undefined,
-        } as any;
-        try {
-          this.ws?.send(JSON.stringify(pong));
-        } catch {}
+        this.status.alive();
+        const auth = { mode: this.pongAuth, password: this.pongPassword.credential, clientId: this.clientId };
+        answerPing(
+          msg,
+          auth,
+          (payload) => this.send({ action: Actions.Pong, timestamp: Date.now(), payload }),
+          this.logger
+        );
         break;
       }
       case Actions.OutboxStreamBatch: {
         const p = msg.payload as OutboxStreamBatchPayload;
-        try {
-          await this.processBatchWithTimeout(p);
-          const ack: Message<OutboxStreamAckPayload> = {
-            action: Actions.OutboxStreamAck,
-            timestamp: Date.now(),
-            payload: { ok: true, okIndices: p.events.map((_e, i) => i) },
-          } as any;
-          this.ws?.send(JSON.stringify(ack));
-        } catch {
-          // No ACK on failure — server will retry
+        const ack: Message<OutboxStreamAckPayload> = {
+          action: Actions.OutboxStreamAck,
+          timestamp: Date.now(),
+          payload: await this.processBatchWithTimeout(p, msg.traceparent),
+        } as any;
+        if (!ack.payload!.ok) {
+          this.logger.warn('batch partially ACKed', {
+            action: msg.action,
+            correlationId: msg.correlationId,
+            size: p?.events?.length ?? 0,
+            okIndices: ack.payload!.okIndices,
+          });
         }
+        this.send(ack);
         break;
       }
       case Actions.QueryResponse: {
+        // late responses (timed out or aborted) and responses without a known correlationId are dropped
+        const pending = msg.correlationId ? this.pendingQueries.get(msg.correlationId) : undefined;
+        if (!pending) {
+          this.logger.debug('query response without a pending query dropped', { correlationId: msg.correlationId });
+          return;
+        }
         const qr = msg.payload as QueryResponsePayload as any;
-        const inflight = this.queryInFlight;
-        this.queryInFlight = null;
-        if (!inflight) return;
-        if (!qr || typeof qr.ok !== 'boolean') inflight.reject(new Error('invalid query response'));
-        else if (qr.ok === false) inflight.reject(new Error(String(qr.err ?? 'query failed')));
-        else inflight.resolve(qr.data);
+        const ctx = { transport: 'ws', query: pending.name };
+        if (!qr || typeof qr.ok !== 'boolean') pending.reject(new InvalidResponseError('[ws-client]', ctx));
+        else if (qr.ok === false) pending.reject(new QueryRemoteError('[ws-client]', { ...ctx, err: qr.err }));
+        else pending.resolve(qr.data);
         break;
       }
       default:
-        // ignore anything else
+        this.logger.debug('unhandled action ignored', { action: msg.action });
         break;
     }
   };
-  /* eslint-enable no-empty */
 
   // ---- batch processing -----------------------------------------------------
-  private async processBatchWithTimeout(batch: OutboxStreamBatchPayload): Promise<void> {
-    const work = this.dispatchBatch(batch);
-    await this.withTimeout(work, this.processTimeoutMs);
-  }
-
-  private async dispatchBatch(batch: OutboxStreamBatchPayload) {
-    const wires = batch.events ?? [];
-    if (!wires.length) return;
-
-    // Build per-type index lists (cheap routing)
-    const perTypeIdx = new Map<string, number[]>();
-    for (let i = 0; i < wires.length; i++) {
-      const w = wires[i]!;
-      if (!this.subs.has(w.eventType)) continue;
-      let arr = perTypeIdx.get(w.eventType);
-      if (!arr) perTypeIdx.set(w.eventType, (arr = []));
-      arr.push(i);
-    }
-
-    if (perTypeIdx.size === 0) return; // nothing to wait for
-
-    const tasks: Promise<void>[] = [];
-    for (const [type, idxs] of perTypeIdx) {
-      const handler = this.subs.get(type)!;
-      tasks.push(
-        (async () => {
-          for (let k = 0; k < idxs.length; k++) {
-            const wire = wires[idxs[k]!]!;
-            const evt = createDomainEventFromWire(wire);
-            await Promise.resolve().then(() => handler(evt));
-          }
-        })()
-      );
-    }
-
-    await Promise.all(tasks);
+  /** Failed or unfinished events are left out of `okIndices`; the server redelivers only those. */
+  private async processBatchWithTimeout(
+    batch: OutboxStreamBatchPayload,
+    traceparent?: string
+  ): Promise<OutboxStreamAckPayload> {
+    return this.dispatcher.dispatch(batch?.events ?? [], this.processTimeoutMs, traceparent);
   }
 
   // ---- helpers --------------------------------------------------------------
-  private withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-    // NOTE: when the timeout fires, the outer promise is rejected
-    // and no ACK is sent (server will retry). However, the underlying dispatchBatch promise
-    // continues running in the background. If handlers complete after the timeout, their
-    // side-effects have already happened but the batch will be re-delivered on retry.
-    // Handlers MUST be idempotent to tolerate this at-least-once delivery guarantee.
-    return new Promise<T>((resolve, reject) => {
-      const t = setTimeout(() => reject(new Error('batch processing timeout')), ms);
-      p.then(
-        (v) => {
-          clearTimeout(t);
-          resolve(v);
-        },
-        (e) => {
-          clearTimeout(t);
-          reject(e);
-        }
-      );
-    });
-  }
-
-  /** Run `fn` with a hard deadline (Date.now() + timeoutMs). */
-  private async withDeadline<T>(fn: (deadlineAt: number) => Promise<T>, timeoutMs: number): Promise<T> {
-    const deadlineAt = Date.now() + Math.max(1, timeoutMs);
-    let timer: any;
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timer = setTimeout(
-        () => {
-          // clear single-flight guard if still pending
-          const inflight = this.queryInFlight;
-          this.queryInFlight = null;
-          inflight?.reject?.(new Error('query response timeout'));
-          reject(new Error('query timeout'));
-        },
-        Math.max(1, timeoutMs)
-      );
-    });
-    try {
-      const result = await Promise.race([fn(deadlineAt), timeoutPromise]);
-      clearTimeout(timer);
-      return result as T;
-    } catch (e) {
-      clearTimeout(timer);
-      throw e;
-    }
-  }
-
-  /** Send a text frame before a given deadline; throws on timeout or send error. */
-  private sendTextBeforeDeadline(text: string, deadlineAt: number): Promise<void> {
+  /** Send the frame of query `name` before a given deadline; a failed send rejects as not connected. */
+  private sendTextBeforeDeadline(text: string, deadlineAt: number, name: string): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        return reject(new Error('[ws-client] not connected'));
+        return reject(new TransportNotConnectedError('[ws-client]', { transport: 'ws', query: name }));
       }
       const now = Date.now();
       const remaining = Math.max(1, deadlineAt - now);
       let timer: any;
       try {
-        timer = setTimeout(() => reject(new Error('send timeout')), remaining);
+        timer = setTimeout(
+          () => reject(new QueryTimeoutError('[ws-client]', { transport: 'ws', query: name, timeoutMs: remaining })),
+          remaining
+        );
         this.ws.send(text, (err) => {
           clearTimeout(timer);
-          if (err) reject(err);
+          if (err) reject(new TransportNotConnectedError('[ws-client]', { transport: 'ws', query: name, cause: err }));
           else resolve();
         });
       } catch (e: any) {
         clearTimeout(timer);
-        reject(e);
+        reject(new TransportNotConnectedError('[ws-client]', { transport: 'ws', query: name, cause: e }));
       }
     });
   }
 
   // ---- managed socket (Node-only) ------------------------------------------
   /**
-   * Opens a socket once (no retry inside). Throws if fails.
+   * Opens a socket once (no retry inside). Throws if fails, also when the token provider does.
    */
   private async openOnce(): Promise<void> {
     const protocols: string[] = [];
-    if (this.token) protocols.push(this.token);
+    const token = this.token.dynamic
+      ? await this.token.get().catch((e) => {
+          throw new CredentialUnavailableError('[ws-client]', { transport: 'ws', cause: e });
+        })
+      : this.token.value;
+    if (token) protocols.push(token);
     if (this.clientId) protocols.push(this.clientId);
 
     const ws = this.socketFactory
@@ -345,6 +473,9 @@ export class WsClient {
       ws.once('open', resolve);
       ws.once('error', reject);
     });
+    this.status.set('open');
+    this.logger.info('connected', { url: this.url });
+    this.startLiveness(ws);
   }
 
   /**
@@ -354,16 +485,20 @@ export class WsClient {
   private startReconnectLoop() {
     if (this.reconnecting) return;
     this.reconnecting = true;
+    this.stopLiveness();
 
     const loop = async () => {
       while (this.reconnecting) {
+        this.status.set('reconnecting', { attempt: this.connAttempts + 1 });
+        this.metrics.reconnect();
         try {
           await this.openOnce();
           this.connAttempts = 0;
           this.reconnecting = false; // connected
           return;
-        } catch {
+        } catch (e) {
           this.connAttempts++;
+          this.logger.warn('reconnect failed', { url: this.url, attempt: this.connAttempts, error: e });
           const delayMs = this.computeBackoffMs(this.connAttempts);
           await delay(delayMs);
         }
@@ -384,17 +519,61 @@ export class WsClient {
     return Math.min(cap, ms);
   }
 
+  /** Watchdog and keepalive for a managed socket; both are off unless configured. */
+  private startLiveness(ws: WebSocket) {
+    this.stopLiveness();
+    this.lastFrameAt = Date.now();
+    if (this.heartbeatTimeoutMs > 0) this.armWatchdog(ws, this.heartbeatTimeoutMs);
+    if (this.keepaliveIntervalMs > 0) {
+      this.keepaliveTimer = setInterval(() => {
+        try {
+          ws.ping();
+        } catch (e) {
+          this.logger.debug('keepalive ping failed', { error: e });
+        }
+      }, this.keepaliveIntervalMs);
+    }
+  }
+
+  private armWatchdog(ws: WebSocket, ms: number) {
+    this.watchdogTimer = setTimeout(() => {
+      if (this.ws !== ws) return;
+      const idle = Date.now() - this.lastFrameAt;
+      if (idle < this.heartbeatTimeoutMs) return this.armWatchdog(ws, this.heartbeatTimeoutMs - idle);
+      // half-open connection: no close/error will ever come, so drop it ourselves
+      this.status.fail(new Error(`[ws-client] no frame received for ${idle} ms`));
+      this.logger.warn('heartbeat timeout, dropping socket', { idleMs: idle });
+      ws.terminate(); // 'close' starts the reconnect loop
+    }, ms);
+  }
+
+  private stopLiveness() {
+    clearTimeout(this.watchdogTimer);
+    clearInterval(this.keepaliveTimer);
+  }
+
   private bindSocket(ws: WebSocket) {
-    ws.on('message', (d) => this.onMessage(String(d)));
+    ws.on('message', (d) => {
+      this.lastFrameAt = Date.now();
+      this.onMessage(String(d));
+    });
+    ws.on('pong', () => (this.lastFrameAt = Date.now()));
 
     ws.on('close', () => {
+      if (this.ws !== ws) return; // replaced or closed by the client
+      this.logger.info('socket closed', { managed: this.ownsSocket });
       // Only auto-reconnect if we own the socket (managed mode)
       if (this.ownsSocket) {
         this.startReconnectLoop();
+      } else {
+        this.status.set('closed');
       }
     });
 
-    ws.on('error', () => {
+    ws.on('error', (err) => {
+      if (this.ws !== ws) return;
+      this.status.fail(err);
+      this.logger.warn('socket error', { error: err });
       // Error may arrive before 'close'; trigger reconnect if managed
       if (this.ownsSocket) {
         this.startReconnectLoop();